@@ -1,7 +1,7 @@
 import {Context, createContext} from "@lit/context";
 import {DataGrid} from "./data-grid.ts";
 
-export const dataGridContext: Context<string, DataGrid> = createContext('data-grid');
+export const dataGridContext: Context<string, DataGrid<any>> = createContext('data-grid');
 
 //#region OptionContexts
 export const editableContext: Context<string, boolean | undefined> = createContext('editable');
@@ -10,5 +10,7 @@ export const sortableContext: Context<string, boolean | undefined> = createConte
 export const hideableContext: Context<string, boolean | undefined> = createContext('hideable');
 export const resizeContext: Context<string, boolean | undefined> = createContext('resize');
 export const reorderContext: Context<string, boolean | undefined> = createContext('reorder');
+export const pinnableContext: Context<string, boolean | undefined> = createContext('pinnable');
+export const groupableContext: Context<string, boolean | undefined> = createContext('groupable');
 
 //#endregion OptionContexts
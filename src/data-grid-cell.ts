@@ -1,6 +1,10 @@
 import { LitElement, html } from 'lit'
-import { customElement } from 'lit/decorators.js'
-import {cellBaseStyles} from "./styles.ts";
+import { customElement, property } from 'lit/decorators.js'
+import {consume} from "@lit/context";
+import {cellBaseStyles, cellEditStyles} from "./styles.ts";
+import {Column, Row} from "./types.ts";
+import {dataGridContext, editableContext} from "./context.ts";
+import {DataGrid} from "./data-grid.ts";
 
 /**
  * Data Grid Cell
@@ -8,12 +12,65 @@ import {cellBaseStyles} from "./styles.ts";
  */
 @customElement('data-grid-cell')
 export class DataGridCell extends LitElement {
+    //#region Properties
+    /**
+     * The row the cell belongs to
+     */
+    @property({attribute: false}) row?: Row;
+    /**
+     * The column the cell belongs to
+     */
+    @property({attribute: false}) column?: Column;
+    /**
+     * Whether the cell is showing its editor
+     */
+    @property({type: Boolean, reflect: true}) editing = false;
+    //#endregion Properties
+    //#region Options
+    /**
+     * Whether the cell is editable
+     */
+    @consume({context: editableContext, subscribe: true})
+    @property({type: Boolean}) editable?: Column['editable'] = false;
+    //#endregion Options
+    //#region State
+    @consume({context: dataGridContext}) grid?: DataGrid;
+    //#endregion State
+    //#region Lifecycle
+    override connectedCallback() {
+        super.connectedCallback();
+        if(!this.hasAttribute('role')) this.setAttribute('role', 'gridcell');
+        if(!this.hasAttribute('part')) this.setAttribute('part', 'cell');
+        this.addEventListener('dblclick', this.onDoubleClick);
+        this.addEventListener('keydown', this.onKeyDown);
+    }
+
+    override disconnectedCallback() {
+        super.disconnectedCallback();
+        this.removeEventListener('dblclick', this.onDoubleClick);
+        this.removeEventListener('keydown', this.onKeyDown);
+    }
+    //#endregion Lifecycle
+
     render() {
         return html`
         <slot></slot>`
     }
 
-    static styles = [cellBaseStyles]
+    private startEdit() {
+        if(!this.editable || this.editing || !this.grid || !this.row || !this.column) return false;
+        return this.grid.startEdit(this.row, this.column.field);
+    }
+
+    private onDoubleClick = () => {
+        this.startEdit();
+    }
+
+    private onKeyDown = (event: KeyboardEvent) => {
+        if(event.key === 'Enter' && event.target === this && this.startEdit()) event.preventDefault();
+    }
+
+    static styles = [cellBaseStyles, cellEditStyles]
 }
 
 declare global {
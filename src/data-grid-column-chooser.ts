@@ -0,0 +1,117 @@
+import {css, html, LitElement} from 'lit'
+import {customElement, property, state} from 'lit/decorators.js'
+import {consume} from "@lit/context";
+import {dataGridContext} from "./context.ts";
+import {DataGrid} from "./data-grid.ts";
+import {Column} from "./types.ts";
+
+/**
+ * Data Grid Column Chooser
+ *
+ * A panel listing every column with a checkbox to show or hide it
+ *
+ * @fires close - When the panel asks to be closed
+ */
+@customElement('data-grid-column-chooser')
+export class DataGridColumnChooser extends LitElement {
+    //#region Properties
+    /**
+     * The columns of the grid
+     */
+    @property({attribute: false}) columns: Column[] = [];
+    //#endregion Properties
+    //#region State
+    @state() search = '';
+    @consume({context: dataGridContext}) grid!: DataGrid;
+    //#endregion State
+    //#region Lifecycle
+    override connectedCallback() {
+        super.connectedCallback();
+        document.addEventListener('pointerdown', this.onDocumentPointerDown);
+        this.addEventListener('keydown', this.onKeyDown);
+    }
+
+    override disconnectedCallback() {
+        super.disconnectedCallback();
+        document.removeEventListener('pointerdown', this.onDocumentPointerDown);
+        this.removeEventListener('keydown', this.onKeyDown);
+    }
+
+    override firstUpdated() {
+        this.renderRoot.querySelector('input')?.focus();
+    }
+    //#endregion Lifecycle
+
+    private close() {
+        this.dispatchEvent(new CustomEvent('close'));
+    }
+
+    private onDocumentPointerDown = (event: PointerEvent) => {
+        if(!event.composedPath().includes(this)) this.close();
+    }
+
+    private onKeyDown = (event: KeyboardEvent) => {
+        if(event.key === 'Escape') this.close();
+    }
+
+    render() {
+        const search = this.search.trim().toLocaleLowerCase();
+        const columns = this.columns.filter(c => !search || c.label.toLocaleLowerCase().includes(search));
+        return html`
+            <div class="panel" role="dialog" aria-label="Columns">
+                <input type="search" placeholder="Search columns…" aria-label="Search columns"
+                       .value=${this.search} @input=${(e: Event) => this.search = (e.target as HTMLInputElement).value}>
+                <div class="columns">
+                    ${columns.map(column => html`
+                        <label>
+                            <input type="checkbox" .checked=${!column.hidden}
+                                   ?disabled=${!this.grid?.isColumnHideable(column)}
+                                   @change=${(e: Event) => this.grid?.setColumnsHidden({[column.field]: !(e.target as HTMLInputElement).checked})}>
+                            ${column.label}
+                        </label>
+                    `)}
+                </div>
+                <div class="actions">
+                    <button @click=${() => this.grid?.showAllColumns()}>Show all</button>
+                    <button @click=${() => this.grid?.resetColumnVisibility()}>Reset</button>
+                </div>
+            </div>
+        `
+    }
+
+    static styles = css`
+        :host {
+            position: absolute;
+            top: 0;
+            right: 0;
+            z-index: 2;
+        }
+        .panel {
+            display: flex;
+            flex-direction: column;
+            gap: 8px;
+            min-width: 200px;
+            padding: 8px;
+            background-color: var(--grid-background);
+            color: var(--grid-color);
+            border: 1px solid var(--grid-border-color);
+            box-shadow: var(--grid-popup-shadow);
+        }
+        .columns {
+            display: flex;
+            flex-direction: column;
+            max-height: 300px;
+            overflow: auto;
+        }
+        .actions {
+            display: flex;
+            justify-content: space-between;
+        }
+    `
+}
+
+declare global {
+    interface HTMLElementTagNameMap {
+        'data-grid-column-chooser': DataGridColumnChooser
+    }
+}
@@ -1,23 +1,52 @@
 import {html, LitElement, nothing} from 'lit'
 import {customElement, property, state} from 'lit/decorators.js'
-import {cellBaseStyles, headerBaseStyles, headerResizerStyles} from "./styles.ts";
-import {Column, ColumnAlignment} from "./types.ts";
+import {
+    cellBaseStyles,
+    headerBaseStyles,
+    headerMenuStyles,
+    headerResizerStyles,
+    headerSortStyles,
+    headerTooltipStyles
+} from "./styles.ts";
+import {
+    AggregateName,
+    Column,
+    ColumnAlignment,
+    ColumnMenuItem,
+    EditorType,
+    FilterType,
+    PinnedSide,
+    SortDirection
+} from "./types.ts";
 import {consume} from "@lit/context";
 import {
     dataGridContext,
     editableContext,
     filterableContext,
-    hideableContext, reorderContext,
+    groupableContext,
+    hideableContext, pinnableContext, reorderContext,
     resizeContext,
     sortableContext
 } from "./context.ts";
 import {DataGrid} from "./data-grid.ts";
 import {pixelsToPercentOfWidth} from "./utils/shared.ts";
 import {watch} from "./utils/watch.ts";
+import {renderTemplate} from "./utils/template.ts";
 
 /**
  * Data Grid Column
  *
+ * The header of a column, or the declaration of one when placed directly in a `<data-grid>`:
+ * `<data-grid-column field="name" label="Name" sortable min-width="120"></data-grid-column>`
+ *
+ * @csspart sort-indicator - The arrow and precedence of the column's sort
+ * @csspart resize-handle - The handle dragged to resize the column
+ * @csspart menu-button - The button opening the column menu
+ * @csspart menu - The column menu
+ * @csspart menu-item - An entry of the column menu
+ * @csspart label - The label of the column
+ * @csspart tooltip - The description of the column, shown when hovering the label or focusing the header
+ * @slot description - The description, referenced by the header's `aria-describedby`
  */
 @customElement('data-grid-column')
 export class DataGridColumn extends LitElement {
@@ -26,6 +55,10 @@ export class DataGridColumn extends LitElement {
      * The index of the column
      */
     @property({type: Number}) index!: number;
+    /**
+     * The field of the column
+     */
+    @property({type: String}) field!: Column['field'];
     /**
      * The alignment of the column
      */
@@ -37,13 +70,16 @@ export class DataGridColumn extends LitElement {
     /**
      * The minimum width the column can be resized too
      */
-    @property({type: Number}) minWidth?: Column['minWidth'];
+    @property({type: Number, attribute: 'min-width'}) minWidth?: Column['minWidth'];
     /**
      * The maximum width the column can be resized too
      */
-    @property({type: Number}) maxWidth?: Column['maxWidth'];
+    @property({type: Number, attribute: 'max-width'}) maxWidth?: Column['maxWidth'];
+    /**
+     * The sort applied to the column, index is its precedence in a multi-column sort
+     */
     @property({type: Object}) sort?: {
-        direction: 'asc' | 'desc',
+        direction: SortDirection,
         index: number
     };
     //#endregion Properties
@@ -78,14 +114,26 @@ export class DataGridColumn extends LitElement {
      */
     @consume({context: reorderContext})
     @property({type: Boolean}) reorderable?: boolean = true;
+    /**
+     * Whether the column can be pinned
+     */
+    @consume({context: pinnableContext})
+    @property({type: Boolean}) pinnable?: boolean = true;
+    /**
+     * Whether the column can be grouped by
+     */
+    @consume({context: groupableContext, subscribe: true})
+    @property({type: Boolean}) groupable?: boolean = false;
     //#endregion Options
     //#region State
     @state() _resizing = false;
     @state() width!: number;
+    @state() menuOpen = false;
+    @state() menuPosition?: {top: number, right: number};
     @consume({context: dataGridContext}) grid!: DataGrid;
     private get gridWidth() {
         if(this.grid) {
-            return this.grid.getBoundingClientRect().width;
+            return this.grid.gridWidth;
         } else {
             console.warn('DataGridColumn must be a child of DataGrid');
             return 0;
@@ -96,20 +144,77 @@ export class DataGridColumn extends LitElement {
     //#region Lifecycle
     override connectedCallback() {
         super.connectedCallback();
-        this.addEventListener('pointerdown', (event: PointerEvent) => {
+        if(this.declarative) return;
+        if(!this.hasAttribute('role')) this.setAttribute('role', 'columnheader');
+        if(!this.hasAttribute('part')) this.setAttribute('part', 'column');
+        this.addEventListener('click', this.onClick);
+    }
+
+    override disconnectedCallback() {
+        super.disconnectedCallback();
+        this.removeEventListener('click', this.onClick);
+        document.removeEventListener('pointerdown', this.onDocumentPointerDown);
+    }
+
+    override willUpdate(changedProperties: Map<PropertyKey, unknown>) {
+        // A declaration's attributes are its configuration, so the header state isn't written to them
+        if(this.declarative) return;
+        if(changedProperties.has('sortable')) this.toggleAttribute('sortable', !!this.sortable);
+        if(changedProperties.has('sort') || changedProperties.has('sortable')) {
             if(this.sortable) {
-                // this.sort = {
-                //     direction: this.sort && this.sort.direction === 'desc' ? 'asc' : this.sort.direction === 'asc' ? ,
-                //     index: this.index
-                // }
+                this.setAttribute('aria-sort', !this.sort ? 'none' : this.sort.direction === 'asc' ? 'ascending' : 'descending');
+            } else {
+                this.removeAttribute('aria-sort');
             }
         }
     }
 
     override firstUpdated() {
-            if(this.grid) this.width = this.grid.gridTemplateColumns[this.index];
+            if(this.grid && !this.declarative) this.width = this.grid.gridTemplateColumns[this.index];
     }
     //#endregion Lifecycle
+    //#region Declaration
+    /**
+     * Whether the element declares a column as a child of the grid, rather than being one of its rendered headers
+     */
+    public get declarative() {
+        return this.parentElement?.localName === 'data-grid';
+    }
+    /**
+     * Reads the column the element declares.
+     * Options are read from the attributes, `sortable` or `sortable="true"` enable one and `sortable="false"` disables it,
+     * and a `<template>` child renders the cells, see `renderTemplate`.
+     */
+    public toColumn(): Column {
+        const flag = (name: string) => this.hasAttribute(name) ? this.getAttribute(name) !== 'false' : undefined;
+        const number = (name: string) => this.hasAttribute(name) ? Number(this.getAttribute(name)) : undefined;
+        const text = <S extends string>(name: string) => (this.getAttribute(name) ?? undefined) as S | undefined;
+        const template = this.querySelector(':scope > template');
+        const column: Column = {
+            field: this.field,
+            label: this.getAttribute('label') ?? this.field,
+            align: this.align,
+            description: this.description,
+            width: number('width'),
+            flex: number('flex'),
+            minWidth: this.minWidth,
+            maxWidth: this.maxWidth,
+            editable: flag('editable'),
+            filterable: flag('filterable'),
+            sortable: flag('sortable'),
+            hideable: flag('hideable'),
+            resizable: flag('resizable'),
+            hidden: flag('hidden'),
+            pinned: text<PinnedSide>('pinned'),
+            aggregate: text<AggregateName>('aggregate'),
+            editor: text<EditorType>('editor'),
+            filterType: text<FilterType>('filter-type'),
+            render: template ? params => renderTemplate(template as HTMLTemplateElement, params) : undefined
+        };
+        // Leaving out what isn't declared lets the grid apply its defaults
+        return Object.fromEntries(Object.entries(column).filter(([, value]) => value !== undefined)) as Column;
+    }
+    //#endregion Declaration
     //#region Watchers
     @watch('width')
     handleWidthChange() {
@@ -120,32 +225,151 @@ export class DataGridColumn extends LitElement {
             this.grid.gridTemplateColumns = gridTemplateColumns;
         }
     }
+    @watch('menuOpen')
+    handleMenuOpenChange() {
+        if(this.menuOpen) {
+            // The menu is fixed so the scrolling grid doesn't clip it
+            const rect = (this.renderRoot.querySelector('.menu-button') as HTMLElement).getBoundingClientRect();
+            this.menuPosition = {top: rect.bottom, right: window.innerWidth - rect.right};
+            document.addEventListener('pointerdown', this.onDocumentPointerDown);
+            this.updateComplete.then(() => (this.renderRoot.querySelector('[role="menuitem"]') as HTMLElement | null)?.focus());
+        } else {
+            document.removeEventListener('pointerdown', this.onDocumentPointerDown);
+        }
+    }
     //#endregion Watchers
+    //#region Menu
+    private get column(): Column | undefined {
+        return this.grid?.columns.find(c => c.field === this.field);
+    }
+    /**
+     * The actions offered by the header menu, each shown when the grid and the column allow it,
+     * then passed through the grid's `getColumnMenuItems`
+     */
+    private getMenuItems(): ColumnMenuItem[] {
+        const column = this.column;
+        const grid = this.grid;
+        if(!column || !grid) return [];
+        const items: ColumnMenuItem[] = [];
+        const field = column.field;
+        if(this.sortable && grid.isColumnSortable(column)) {
+            if(this.sort?.direction !== 'asc') items.push({id: 'sort-asc', label: 'Sort ascending', action: () => grid.setColumnSort(field, 'asc')});
+            if(this.sort?.direction !== 'desc') items.push({id: 'sort-desc', label: 'Sort descending', action: () => grid.setColumnSort(field, 'desc')});
+            if(this.sort) items.push({id: 'sort-clear', label: 'Clear sort', action: () => grid.setColumnSort(field, undefined)});
+        }
+        if(this.pinnable) {
+            if(column.pinned !== 'left') items.push({id: 'pin-left', label: 'Pin to left', action: () => grid.setColumnPinned(field, 'left')});
+            if(column.pinned !== 'right') items.push({id: 'pin-right', label: 'Pin to right', action: () => grid.setColumnPinned(field, 'right')});
+            if(column.pinned) items.push({id: 'unpin', label: 'Unpin', action: () => grid.setColumnPinned(field, undefined)});
+        }
+        if(this.resizable && grid.isColumnResizable(column)) {
+            items.push(
+                {id: 'auto-size', label: 'Fit to content', action: () => grid.autoSizeColumn(field)},
+                {id: 'reset-width', label: 'Reset width', action: () => grid.resetColumnWidth(field)}
+            );
+        }
+        if(this.groupable && grid.groupBy.includes(field)) {
+            items.push({id: 'ungroup', label: 'Stop grouping by this column', action: () => grid.removeGroupBy(field)});
+        } else if(this.groupable && grid.isColumnGroupable(column)) {
+            items.push({id: 'group-by', label: 'Group by this column', action: () => grid.addGroupBy(field)});
+        }
+        if(this.hideable && grid.isColumnHideable(column)) {
+            items.push(
+                {id: 'hide', label: 'Hide column', action: () => grid.hideColumn(field)},
+                {id: 'columns', label: 'Choose columns…', action: () => grid.columnChooserOpen = true}
+            );
+        }
+        return grid.getColumnMenuItems ? grid.getColumnMenuItems(column, items) : items;
+    }
+    private onMenuItemClick(item: ColumnMenuItem) {
+        this.menuOpen = false;
+        item.action();
+    }
+    private onMenuKeyDown = (event: KeyboardEvent) => {
+        const items = [...this.renderRoot.querySelectorAll<HTMLElement>('[role="menuitem"]')];
+        const index = items.indexOf(this.renderRoot.querySelector(':focus') as HTMLElement);
+        if(event.key === 'Escape') {
+            this.menuOpen = false;
+            (this.renderRoot.querySelector('.menu-button') as HTMLElement | null)?.focus();
+        } else if(event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+            items[(index + (event.key === 'ArrowDown' ? 1 : items.length - 1)) % items.length]?.focus();
+        } else {
+            return;
+        }
+        event.preventDefault();
+        event.stopPropagation();
+    }
+    private onDocumentPointerDown = (event: PointerEvent) => {
+        if(!event.composedPath().includes(this)) this.menuOpen = false;
+    }
+    private renderMenu() {
+        const items = this.getMenuItems();
+        if(!items.length) return nothing;
+        return html`
+            <button class="menu-button" part="menu-button" aria-label="Column menu" aria-haspopup="menu" aria-expanded=${this.menuOpen}
+                    @click=${() => this.menuOpen = !this.menuOpen}>⋮</button>
+            ${this.menuOpen ? html`
+                <div class="menu" part="menu" role="menu" @keydown=${this.onMenuKeyDown}
+                     style=${this.menuPosition ? `top: ${this.menuPosition.top}px; right: ${this.menuPosition.right}px` : nothing}>
+                    ${items.map(item => html`
+                        <button role="menuitem" part="menu-item" data-id=${item.id} @click=${() => this.onMenuItemClick(item)}>${item.label}</button>
+                    `)}
+                </div>
+            ` : nothing}
+        `
+    }
+    //#endregion Menu
 
     render() {
+        if(this.declarative) return nothing;
         return html`
                 ${this.reorderable ? html`<slot name="reorder-handle"></slot>` : nothing}
-                <slot></slot>
+                <span class="label" part="label"><slot></slot></span>
+                ${this.description ? html`
+                    <div class="tooltip" part="tooltip"><slot name="description"></slot></div>
+                ` : nothing}
                 ${this.sortable && this.sort ? html`
-                    <div class="sort-indicator" data-sort-direction="${this.sort.direction}"></div>
+                    <div class="sort-indicator" part="sort-indicator" data-sort-direction="${this.sort.direction}">
+                        ${this.grid && this.grid.sort.length > 1 ? this.sort.index + 1 : nothing}
+                    </div>
                 ` : ''}
+                ${this.renderMenu()}
                 ${this.resizable ? html`
-                    <div class="resize-handle" @pointerdown="${this.onResizePointerDown}"
+                    <div class="resize-handle" part="resize-handle"
+                         @pointerdown="${this.onResizePointerDown}" @dblclick="${this.onResizeDoubleClick}"
                     ></div>` : ''}
         `
     }
 
+    private onClick = (event: MouseEvent) => {
+        if(!this.sortable || !this.grid) return;
+        // Ignore clicks that end a resize or reorder drag, or that belong to the menu
+        const fromHandle = event.composedPath().some(el => el instanceof HTMLElement
+            && (el.classList.contains('resize-handle') || el.slot === 'reorder-handle'
+                || el.classList.contains('menu-button') || el.classList.contains('menu')));
+        if(fromHandle) return;
+        this.grid.toggleSort(this.field, event.shiftKey);
+    }
+
+    private onResizeDoubleClick = (event: MouseEvent) => {
+        event.stopPropagation();
+        this.grid?.autoSizeColumn(this.field);
+    }
+
     private onResizePointerDown = (event: PointerEvent) => {
         const startX = event.clientX;
         const startWidth = this?.offsetWidth || 0;
+        const startWidths = this.grid?.gridTemplateColumns;
             const onPointerMove = (evt: PointerEvent) => {
                 evt.preventDefault()
                 if (this._resizing) {
-                    this.width = pixelsToPercentOfWidth(Math.max(this.minWidth || 60, startWidth + evt.clientX - startX), this.gridWidth)
+                    this.width = this.grid.clampColumnWidth(this.index, pixelsToPercentOfWidth(startWidth + evt.clientX - startX, this.gridWidth));
                 }
             }
             const onPointerUp = () => {
                     this._resizing = false;
+                    // The whole drag undoes as one step
+                    if(this.grid && startWidths) this.grid.commitColumnResize(this.index, startWidths);
                     document.removeEventListener('pointermove', onPointerMove)
                     document.removeEventListener('pointerup', onPointerUp);
             }
@@ -157,7 +381,10 @@ export class DataGridColumn extends LitElement {
     static styles = [
         cellBaseStyles,
         headerBaseStyles,
-        headerResizerStyles
+        headerResizerStyles,
+        headerSortStyles,
+        headerMenuStyles,
+        headerTooltipStyles
     ]
 }
 
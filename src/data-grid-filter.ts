@@ -0,0 +1,187 @@
+import {css, html, LitElement, nothing} from 'lit'
+import {customElement, property, state} from 'lit/decorators.js'
+import {consume} from "@lit/context";
+import {dataGridContext} from "./context.ts";
+import {DataGrid} from "./data-grid.ts";
+import {Column, ColumnFilter, FilterValue, TextFilterOperator} from "./types.ts";
+import {getFilterOptions, inferFilterType} from "./utils/filter.ts";
+
+type RangeKey = 'min' | 'max' | 'from' | 'to';
+type RangeValues = Partial<Record<RangeKey, number | string>>;
+
+/**
+ * Data Grid Filter
+ *
+ * Renders the filter inputs for a single column, picked by the column's filter type
+ */
+@customElement('data-grid-filter')
+export class DataGridFilter extends LitElement {
+    //#region Properties
+    /**
+     * The column being filtered
+     */
+    @property({attribute: false}) column!: Column;
+    /**
+     * The current filter of the column
+     */
+    @property({attribute: false}) filter?: ColumnFilter;
+    //#endregion Properties
+    //#region State
+    @consume({context: dataGridContext}) grid!: DataGrid;
+    /**
+     * The operator picked for a text filter, kept while there is no value to filter by yet
+     */
+    @state() private textOperator: TextFilterOperator = 'contains';
+    private inputTimeout?: ReturnType<typeof setTimeout>;
+    //#endregion State
+    //#region Lifecycle
+    override disconnectedCallback() {
+        super.disconnectedCallback();
+        clearTimeout(this.inputTimeout);
+    }
+    //#endregion Lifecycle
+
+    private applyFilter(filter?: ColumnFilter) {
+        if(this.grid) this.grid.setColumnFilter(this.column.field, filter);
+    }
+
+    private renderText() {
+        const filter = this.filter?.type === 'text' ? this.filter : undefined;
+        const operator = filter?.operator ?? this.textOperator;
+        const onChange = (value: string, op: TextFilterOperator) => {
+            clearTimeout(this.inputTimeout);
+            if(value === (filter?.value ?? '') && op === operator) return;
+            this.applyFilter(value ? {type: 'text', operator: op, value} : undefined);
+        }
+        // Filtering waits for a pause in typing, so a data source isn't queried on every key
+        const onInput = (value: string) => {
+            clearTimeout(this.inputTimeout);
+            this.inputTimeout = setTimeout(() => onChange(value, operator), 250);
+        }
+        const onOperatorChange = (op: TextFilterOperator) => {
+            this.textOperator = op;
+            onChange(filter?.value ?? '', op);
+        }
+        return html`
+            <select aria-label="Operator" @change=${(e: Event) => onOperatorChange((e.target as HTMLSelectElement).value as TextFilterOperator)}>
+                <option value="contains" ?selected=${operator === 'contains'}>Contains</option>
+                <option value="equals" ?selected=${operator === 'equals'}>Equals</option>
+                <option value="startsWith" ?selected=${operator === 'startsWith'}>Starts with</option>
+            </select>
+            <input type="search" placeholder="Filter…" aria-label="Filter ${this.column.label}"
+                   .value=${filter?.value ?? ''}
+                   @input=${(e: Event) => onInput((e.target as HTMLInputElement).value)}
+                   @change=${(e: Event) => onChange((e.target as HTMLInputElement).value, operator)}>
+        `
+    }
+
+    private renderRange(type: 'number' | 'date') {
+        const filter = this.filter?.type === type ? this.filter : undefined;
+        const [start, end]: RangeKey[] = type === 'number' ? ['min', 'max'] : ['from', 'to'];
+        const values: RangeValues = filter?.type === 'number' ? {min: filter.min, max: filter.max}
+            : filter?.type === 'date' ? {from: filter.from, to: filter.to}
+            : {};
+        const onChange = (key: RangeKey, raw: string) => {
+            const next: RangeValues = {...values, [key]: raw === '' ? undefined : raw};
+            const empty = next[start] === undefined && next[end] === undefined;
+            const toNumber = (value?: number | string) => value === undefined ? undefined : Number(value);
+            const toText = (value?: number | string) => value === undefined ? undefined : String(value);
+            this.applyFilter(empty ? undefined : type === 'number'
+                ? {type, min: toNumber(next.min), max: toNumber(next.max)}
+                : {type, from: toText(next.from), to: toText(next.to)});
+        }
+        return html`
+            ${[start, end].map(key => html`
+                <input type=${type} placeholder=${key} aria-label="${this.column.label} ${key}"
+                       .value=${values[key] ?? ''}
+                       @change=${(e: Event) => onChange(key, (e.target as HTMLInputElement).value)}>
+            `)}
+        `
+    }
+
+    private renderSet() {
+        const options = this.grid ? getFilterOptions(this.column, this.grid.rows) : [];
+        const filter = this.filter?.type === 'set' ? this.filter : undefined;
+        const selected = filter ? filter.values : options;
+        const toggle = (value: FilterValue, checked: boolean) => {
+            const values = checked ? [...selected, value] : selected.filter(v => v !== value);
+            this.applyFilter(values.length === options.length ? undefined : {type: 'set', values});
+        }
+        return html`
+            <details @toggle=${this.onSetToggle}>
+                <summary>${filter ? `${filter.values.length} of ${options.length}` : 'All'}</summary>
+                <div class="options">
+                    <label>
+                        <input type="checkbox" .checked=${!filter} .indeterminate=${!!filter && filter.values.length > 0}
+                               @change=${(e: Event) => this.applyFilter((e.target as HTMLInputElement).checked ? undefined : {type: 'set', values: []})}>
+                        Select all
+                    </label>
+                    ${options.map(value => html`
+                        <label>
+                            <input type="checkbox" .checked=${selected.includes(value)}
+                                   @change=${(e: Event) => toggle(value, (e.target as HTMLInputElement).checked)}>
+                            ${value === null || value === '' ? '(Blank)' : String(value)}
+                        </label>
+                    `)}
+                </div>
+            </details>
+        `
+    }
+
+    private onSetToggle = (event: Event) => {
+        // The options are fixed so the scrolling grid doesn't clip them
+        const details = event.target as HTMLDetailsElement;
+        const options = details.querySelector('.options') as HTMLElement;
+        const rect = details.getBoundingClientRect();
+        options.style.top = `${rect.bottom}px`;
+        options.style.left = `${rect.left}px`;
+    }
+
+    render() {
+        if(!this.column) return nothing;
+        switch(inferFilterType(this.column, this.grid?.rows ?? [])) {
+            case 'number': return this.renderRange('number');
+            case 'date': return this.renderRange('date');
+            case 'set': return this.renderSet();
+            default: return this.renderText();
+        }
+    }
+
+    static styles = css`
+        :host {
+            display: flex;
+            gap: 4px;
+            font-weight: normal;
+        }
+        input, select {
+            min-width: 0;
+            flex: 1;
+            font: inherit;
+        }
+        select {
+            flex: 0 1 auto;
+        }
+        details {
+            position: relative;
+            flex: 1;
+        }
+        .options {
+            position: fixed;
+            z-index: 1;
+            display: flex;
+            flex-direction: column;
+            max-height: 200px;
+            overflow: auto;
+            padding: 4px;
+            background-color: var(--grid-background);
+            color: var(--grid-color);
+            border: 1px solid var(--grid-border-color);
+        }
+    `
+}
+
+declare global {
+    interface HTMLElementTagNameMap {
+        'data-grid-filter': DataGridFilter
+    }
+}
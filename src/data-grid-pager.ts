@@ -0,0 +1,172 @@
+import {css, html, LitElement} from 'lit'
+import {customElement, property} from 'lit/decorators.js'
+import {consume} from "@lit/context";
+import {dataGridContext} from "./context.ts";
+import {DataGrid} from "./data-grid.ts";
+
+/**
+ * Data Grid Pager
+ *
+ * The footer of a paginated grid, moving between pages and changing how many rows a page holds.
+ * PageUp and PageDown go to the previous and next page, Home and End to the first and last,
+ * while focus is anywhere in the pager but the page number input.
+ *
+ * @csspart button - The first, previous, next and last page buttons
+ * @csspart page-input - The page number input
+ * @csspart page-size - The rows per page select
+ * @csspart summary - The range of rows shown and their total
+ */
+@customElement('data-grid-pager')
+export class DataGridPager extends LitElement {
+    //#region Properties
+    /**
+     * The page shown, starting at 1
+     */
+    @property({type: Number}) page = 1;
+    /**
+     * The number of rows a page holds
+     */
+    @property({type: Number, attribute: 'page-size'}) pageSize = 100;
+    /**
+     * The page sizes offered, the current one is added when it is missing
+     */
+    @property({type: Array, attribute: false}) pageSizeOptions: number[] = [];
+    /**
+     * The number of rows across every page
+     */
+    @property({type: Number, attribute: 'row-count'}) rowCount = 0;
+    //#endregion Properties
+    //#region State
+    @consume({context: dataGridContext}) grid!: DataGrid;
+    //#endregion State
+    //#region Lifecycle
+    override connectedCallback() {
+        super.connectedCallback();
+        this.addEventListener('keydown', this.onKeyDown);
+    }
+
+    override disconnectedCallback() {
+        super.disconnectedCallback();
+        this.removeEventListener('keydown', this.onKeyDown);
+    }
+    //#endregion Lifecycle
+
+    public get pageCount() {
+        return Math.max(1, Math.ceil(this.rowCount / Math.max(1, this.pageSize)));
+    }
+
+    private goTo(page: number) {
+        this.grid?.setPage(page);
+    }
+
+    private onKeyDown = (event: KeyboardEvent) => {
+        const inInput = event.composedPath()[0] instanceof HTMLInputElement;
+        switch(event.key) {
+            case 'PageUp':
+                this.goTo(this.page - 1);
+                break;
+            case 'PageDown':
+                this.goTo(this.page + 1);
+                break;
+            case 'Home':
+                if(inInput) return;
+                this.goTo(1);
+                break;
+            case 'End':
+                if(inInput) return;
+                this.goTo(this.pageCount);
+                break;
+            default:
+                return;
+        }
+        event.preventDefault();
+    }
+
+    private onPageInputKeyDown = (event: KeyboardEvent) => {
+        const input = event.target as HTMLInputElement;
+        if(event.key === 'Enter') {
+            this.commitPageInput(input);
+        } else if(event.key === 'Escape') {
+            input.value = String(this.page);
+        } else {
+            return;
+        }
+        event.preventDefault();
+    }
+
+    private commitPageInput(input: HTMLInputElement) {
+        const page = Math.trunc(Number(input.value));
+        if(Number.isFinite(page) && input.value.trim() !== '') this.goTo(page);
+        // An invalid or out of range number shows the current page again
+        input.value = String(this.grid?.page ?? this.page);
+    }
+
+    render() {
+        const count = this.pageCount;
+        const first = this.rowCount ? (this.page - 1) * this.pageSize + 1 : 0;
+        const last = Math.min(this.page * this.pageSize, this.rowCount);
+        const sizes = [...new Set([...this.pageSizeOptions, this.pageSize])].sort((a, b) => a - b);
+        return html`
+            <label class="page-size">
+                Rows per page
+                <select part="page-size" .value=${String(this.pageSize)}
+                        @change=${(e: Event) => this.grid?.setPageSize(Number((e.target as HTMLSelectElement).value))}>
+                    ${sizes.map(size => html`<option value=${size} ?selected=${size === this.pageSize}>${size}</option>`)}
+                </select>
+            </label>
+            <span class="summary" part="summary" role="status">Rows ${first}–${last} of ${this.rowCount}</span>
+            <div class="pages">
+                <button part="button" aria-label="First page" ?disabled=${this.page <= 1} @click=${() => this.goTo(1)}>«</button>
+                <button part="button" aria-label="Previous page" ?disabled=${this.page <= 1} @click=${() => this.goTo(this.page - 1)}>‹</button>
+                <label>
+                    Page
+                    <input part="page-input" type="number" min="1" max=${count} .value=${String(this.page)}
+                           @keydown=${this.onPageInputKeyDown}
+                           @change=${(e: Event) => this.commitPageInput(e.target as HTMLInputElement)}>
+                    of ${count}
+                </label>
+                <button part="button" aria-label="Next page" ?disabled=${this.page >= count} @click=${() => this.goTo(this.page + 1)}>›</button>
+                <button part="button" aria-label="Last page" ?disabled=${this.page >= count} @click=${() => this.goTo(count)}>»</button>
+            </div>
+        `
+    }
+
+    static styles = css`
+        :host {
+            display: flex;
+            flex-wrap: wrap;
+            align-items: center;
+            justify-content: flex-end;
+            gap: 8px 24px;
+            padding: 4px 8px;
+            color: var(--grid-muted-color);
+            background-color: var(--grid-background);
+            border-top: var(--grid-border-width) solid var(--grid-border-color);
+        }
+        .pages {
+            display: flex;
+            align-items: center;
+            gap: 4px;
+        }
+        button {
+            min-width: 2em;
+            cursor: pointer;
+        }
+        button:disabled {
+            cursor: default;
+        }
+        input {
+            width: 4em;
+        }
+        :is(button, input, select):focus-visible {
+            outline: 2px solid var(--grid-accent-color);
+            outline-offset: 1px;
+        }
+    `
+}
+
+declare global {
+    interface HTMLElementTagNameMap {
+        'data-grid-pager': DataGridPager
+    }
+}
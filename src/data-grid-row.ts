@@ -1,5 +1,5 @@
 import { LitElement, css, html } from 'lit'
-import { customElement } from 'lit/decorators.js'
+import { customElement, property } from 'lit/decorators.js'
 
 /**
  * Data Grid Row
@@ -7,6 +7,17 @@ import { customElement } from 'lit/decorators.js'
  */
 @customElement('data-grid-row')
 export class DataGridRow extends LitElement {
+    /**
+     * Whether the row is selected
+     */
+    @property({type: Boolean, reflect: true}) selected = false;
+
+    override connectedCallback() {
+        super.connectedCallback();
+        if(!this.hasAttribute('role')) this.setAttribute('role', 'row');
+        if(!this.hasAttribute('part')) this.setAttribute('part', 'row');
+    }
+
     render() {
         return html`
         <slot></slot>`
@@ -19,6 +30,9 @@ export class DataGridRow extends LitElement {
             grid-template-columns: subgrid;
             grid-column: 1/-1;
         }
+        :host([selected]) {
+            background-color: var(--grid-selected-background);
+        }
     `
 }
 
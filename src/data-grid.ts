@@ -1,51 +1,181 @@
-import {css, html, LitElement, nothing, render, unsafeCSS} from 'lit'
+import {css, html, LitElement, nothing, unsafeCSS} from 'lit'
 import {customElement, property, state} from 'lit/decorators.js'
 import "./data-grid-column.ts";
 import "./data-grid-row.ts";
 import "./data-grid-cell.ts";
-import {Column, Row} from "./types.ts";
+import "./data-grid-filter.ts";
+import "./data-grid-column-chooser.ts";
+import "./data-grid-pager.ts";
+import {DataGridColumn} from "./data-grid-column.ts";
+import {
+    CellEditDetail,
+    CellPosition,
+    CellRange,
+    CellsChangeDetail,
+    Column,
+    ColumnFilter,
+    ColumnMenuItem,
+    ColumnResizeDetail,
+    ColumnsReorderDetail,
+    DataSource,
+    DataSourceMode,
+    EditorContext,
+    ExportFormat,
+    ExportOptions,
+    FilterModel,
+    FrameworkRenderer,
+    GridDensity,
+    GridState,
+    GridStateStorage,
+    GridTheme,
+    PinnedSide,
+    RowChangeDetail,
+    RowGroup,
+    RowsReorderDetail,
+    SelectionMode,
+    SortDirection,
+    SortItem,
+    StyleDeclarations
+} from "./types.ts";
 import {provide} from "@lit/context";
 import {
     dataGridContext,
     editableContext,
     filterableContext,
-    hideableContext, reorderContext,
+    groupableContext,
+    hideableContext, pinnableContext, reorderContext,
     resizeContext,
     sortableContext
 } from "./context.ts";
-import {pixelsToPercentOfWidth} from "./utils/shared.ts";
+import {emit, pixelsToPercentOfWidth} from "./utils/shared.ts";
+import {sortRows} from "./utils/sort.ts";
+import {filterRows} from "./utils/filter.ts";
+import {inferEditorType, renderEditor} from "./utils/editors.ts";
+import {BlockCache} from "./utils/data-source.ts";
+import {aggregate, groupRows} from "./utils/group.ts";
+import {getExportTable, toDelimited, toXlsx} from "./utils/export.ts";
+import {parseCellValue, parseDelimited, toHtmlTable} from "./utils/clipboard.ts";
+import {Command, CommandHistory} from "./utils/history.ts";
+import {formatCellValue, getCellValue, getFieldValue, setFieldValue, withFieldValue} from "./utils/value.ts";
+import {frameworkContent} from "./utils/framework.ts";
+import {applyCellRules, getValueRange, toStyleText, ValueRange} from "./utils/styling.ts";
+import {themeStyles} from "./styles.ts";
 import {watch} from "./utils/watch.ts";
+
+export {createInMemoryDataSource} from "./utils/data-source.ts";
 import Sortable from "sortablejs";
 import {createRef, Ref, ref} from "lit/directives/ref.js";
+import {repeat} from "lit/directives/repeat.js";
+
+const STATE_VERSION = 1;
+let gridCount = 0;
+let sharedSheet: CSSStyleSheet | undefined;
+const adoptedRoots = new WeakSet<Document | ShadowRoot>();
+
+/**
+ * An entry of the rendered body: a data row, a group header, or a group or grand-total footer
+ */
+type DisplayItem<T extends object> =
+    | {type: 'row', row: T, index: number}
+    | {type: 'group', group: RowGroup<T>}
+    | {type: 'footer', key: string, rows: T[], depth: number}
+    | {type: 'detail', row: T, detail: RowDetail};
+
+/**
+ * The content of an expanded row's detail panel, kept while the row stays expanded
+ */
+interface RowDetail {
+    content?: unknown;
+    loading: boolean;
+    error?: unknown;
+}
+
 /**
  * Data Grid
  *
+ * @typeParam T - The type of the rows, which types the fields and callbacks of the columns
  * @slot - This element has a slot
+ * @csspart column - A column header, styleable from outside when the grid is in a shadow root
+ * @csspart row - A header, body or footer row
+ * @csspart cell - A body, filter or footer cell
+ * @csspart pager - The footer moving between pages when paginated
  */
 @customElement('data-grid')
-export class DataGrid extends LitElement {
+export class DataGrid<T extends object = any> extends LitElement {
     //#region Properties
     /**
      * The columns of the data grid
      */
-    @property({type: Array}) columns: Column[] = [];
+    @property({type: Array}) columns: Column<T>[] = [];
+    /**
+     * The rows of the data grid, or the rows loaded so far when a `dataSource` is set
+     */
+    @property({type: Array}) rows: T[] = [];
     /**
-     * The rows of the data grid
+     * Loads rows on demand, sorting and filtering are then left to the provider
      */
-    @property({type: Array}) rows: Row[] = [];
+    @property({attribute: false}) dataSource?: DataSource<T>;
     /**
-     * The renderer function for framework-agnostic rendering
+     * The renderer function for framework-agnostic rendering, the React and Vue components set it for you
      * @param content - The content to render
-     * @param container - The container to render the content in
-     * @returns The rendered content
+     * @param container - The container to render the content in, kept for as long as the cell shows the content
+     * @returns A function that unmounts the content, called once the cell is removed
      * @example
      * ```typescript
      * const renderer = (content: any, container: HTMLElement) => {
      *    render(content, container);
+     *    return () => render(null, container);
      *  }
      *  ```
      */
-    @property({type: Function}) renderer?: (content: any, container: HTMLElement) => void;
+    @property({type: Function}) renderer?: FrameworkRenderer;
+    /**
+     * Renders the panel shown under a row when it is expanded, adding an expand toggle to every row.
+     * Called once each time a row is expanded, a returned promise shows a loading message until it resolves.
+     * May return a lit template, an HTMLElement, or anything the `renderer` can draw.
+     */
+    @property({attribute: false}) detailRenderer?: (row: T) => any;
+    /**
+     * The active sort, in order of precedence
+     */
+    @property({type: Array}) sort: SortItem[] = [];
+    /**
+     * Returns a stable identifier for a row, defaults to the row object itself
+     */
+    @property({attribute: false}) getRowId?: (row: T) => unknown;
+    /**
+     * Classes added to a row, separated by spaces, such as `row => row.overdue ? 'overdue' : undefined`
+     */
+    @property({attribute: false}) rowClass?: (row: T, index: number) => string | undefined;
+    /**
+     * Styles added to a row, such as `row => row.archived ? {opacity: '0.6'} : undefined`
+     */
+    @property({attribute: false}) rowStyle?: (row: T, index: number) => StyleDeclarations | undefined;
+    /**
+     * Customizes the header menu of a column: receives the built-in items, which may be kept, removed or reordered,
+     * and returns the items to show
+     */
+    @property({attribute: false}) getColumnMenuItems?: (column: Column<T>, items: ColumnMenuItem[]) => ColumnMenuItem[];
+    /**
+     * The maximum number of columns that can be sorted at once with shift-click
+     */
+    @property({type: Number, attribute: 'max-sort-columns'}) maxSortColumns = 3;
+    /**
+     * The active column filters, keyed by field
+     */
+    @property({type: Object}) filter: FilterModel = {};
+    /**
+     * A search string matched against every column
+     */
+    @property({type: String, attribute: 'quick-filter'}) quickFilter?: string;
+    /**
+     * The key the grid state is saved under, persistence is disabled when omitted
+     */
+    @property({type: String, attribute: 'persist-key'}) persistKey?: string;
+    /**
+     * Where the grid state is saved when `persistKey` is set, defaults to `localStorage`
+     */
+    @property({attribute: false}) storage?: GridStateStorage;
     //#endregion Properties
     //#region Options
     /**
@@ -78,34 +208,441 @@ export class DataGrid extends LitElement {
      */
     @provide({context: reorderContext})
     @property({type: Boolean}) reorderable? = true;
+    /**
+     * Whether columns can be pinned from the header menu
+     */
+    @provide({context: pinnableContext})
+    @property({type: Boolean}) pinnable? = true;
+    /**
+     * Whether only the rows scrolled into view are rendered
+     */
+    @property({type: Boolean, reflect: true}) virtual = false;
+    /**
+     * The fixed height of a row in pixels when virtual, measured from the rendered rows when omitted
+     */
+    @property({type: Number, attribute: 'row-height'}) rowHeight?: number;
+    /**
+     * The number of extra rows rendered above and below the visible ones when virtual
+     */
+    @property({type: Number}) overscan = 10;
+    /**
+     * Whether rows can be selected, and how many at once
+     */
+    @property({type: String, attribute: 'selection-mode'}) selectionMode: SelectionMode = 'none';
+    /**
+     * Whether a leading column of checkboxes is shown when rows can be selected
+     */
+    @property({type: Boolean, attribute: 'checkbox-selection'}) checkboxSelection = false;
+    /**
+     * Whether a data source is read a page at a time or appended to as the body scrolls
+     */
+    @property({type: String, attribute: 'data-source-mode', reflect: true}) dataSourceMode: DataSourceMode = 'paged';
+    /**
+     * Whether the rows are split into pages, with a pager below them, after they are filtered and sorted.
+     * A data source in paged mode is paged through the same pager.
+     */
+    @property({type: Boolean, reflect: true}) pagination = false;
+    /**
+     * The number of rows a page holds, and that are requested from the data source at once
+     */
+    @property({type: Number, attribute: 'page-size'}) pageSize = 100;
+    /**
+     * The page sizes the pager offers
+     */
+    @property({type: Array, attribute: 'page-size-options'}) pageSizeOptions: number[] = [10, 25, 50, 100];
+    /**
+     * The page shown when paginated, or requested from the data source in paged mode, starting at 1
+     */
+    @property({type: Number}) page = 1;
+    /**
+     * Whether columns can be dragged into the group-by drop zone
+     */
+    @provide({context: groupableContext})
+    @property({type: Boolean, reflect: true}) groupable? = false;
+    /**
+     * The fields the rows are grouped by, outermost first
+     */
+    @property({type: Array, attribute: 'group-by'}) groupBy: string[] = [];
+    /**
+     * Whether a footer summarizing every row with the columns' `aggregate` is shown
+     */
+    @property({type: Boolean, attribute: 'grand-total'}) grandTotal = false;
+    /**
+     * Whether blocks of cells can be selected by dragging or with shift-arrows, then copied and pasted
+     */
+    @property({type: Boolean, attribute: 'cell-selection', reflect: true}) cellSelection = false;
+    /**
+     * Whether expanding a row collapses the one already expanded
+     */
+    @property({type: Boolean, attribute: 'single-expand'}) singleExpand = false;
+    /**
+     * The number of changes that can be undone, 0 turns the history off
+     */
+    @property({type: Number, attribute: 'history-depth'}) historyDepth = 100;
+    /**
+     * Whether `rows` and `columns` are left untouched, with moves, edits, hiding and pinning proposed in
+     * `rows-reorder`, `columns-reorder`, `row-change`, `column-visibility-change` and `column-pin-change` events
+     * for the host to apply. Columns the grid rearranges itself, such as pinned columns moved to their side or a
+     * restored state, are proposed in `columns-change`, and rows loaded from a data source in `rows-load`.
+     * Set `getRowId` so rows keep their selection and expansion when the host replaces them.
+     */
+    @property({type: Boolean}) controlled = false;
+    /**
+     * The built-in set of colors, override the `--grid-*` custom properties to adjust it
+     */
+    @property({type: String, reflect: true}) theme: GridTheme = 'light';
+    /**
+     * How much space the cells get around their content
+     */
+    @property({type: String, reflect: true}) density: GridDensity = 'normal';
     //#endregion Options
     //#region States
-    @provide({context: dataGridContext}) grid: DataGrid = this;
+    @provide({context: dataGridContext}) grid: DataGrid<any> = this;
+    /**
+     * Prefixes the ids of the grid's elements, keeping them unique in the document
+     */
+    private idPrefix = `data-grid-${gridCount++}`;
     @state() public gridTemplateColumns: number[] = [];
+    /**
+     * The rows as they are rendered, after filtering and sorting, without those in collapsed groups
+     */
+    protected viewRows: T[] = [];
+    /**
+     * The rows, group headers and footers as they are rendered
+     */
+    private displayItems: DisplayItem<T>[] = [];
+    /**
+     * The index in `displayItems` of each entry of `viewRows`
+     */
+    private rowDisplayIndex: number[] = [];
+    /**
+     * The cell currently being edited
+     */
+    @state() protected editing?: {row: T, field: string, error?: string};
+    /**
+     * Whether the column chooser panel is open
+     */
+    @state() public columnChooserOpen = false;
     //#endregion States
     //#region Lifecycle
+    override willUpdate(changedProperties: Map<PropertyKey, unknown>) {
+        const queryProperties = ['sort', 'filter', 'quickFilter'];
+        const sourceProperties = ['dataSource', 'dataSourceMode', 'pageSize', 'page', ...queryProperties];
+        if(changedProperties.has('dataSource')) this.resetDataSource();
+        // A new query starts again from the first page
+        const queried = this.hasUpdated && queryProperties.some(p => changedProperties.has(p));
+        if(queried && (this.dataSource || this.pagination)) this.changePage(1);
+        if(this.dataSource && sourceProperties.some(p => changedProperties.has(p))) this.loadData();
+        const viewProperties = ['rows', 'columns', 'sort', 'sortable', 'filter', 'quickFilter', 'filterable', 'dataSource',
+            'groupBy', 'collapsedGroups', 'grandTotal', 'details', 'pagination', 'page', 'pageSize'];
+        if(viewProperties.some(p => changedProperties.has(p))) {
+            const viewRows = this.computeViewRows();
+            this.updateDisplayItems(this.paginateRows(viewRows));
+            this.updateValueRanges(viewRows);
+        }
+        // Seeded here so the first paint already has rows, scrolling and resizing move it from then on
+        if(this.virtual) this.virtualRange = this.getVirtualRange();
+        this.clampActiveCell();
+        this.clampCellRange();
+    }
+    override connectedCallback() {
+        super.connectedCallback();
+        // The grid may have been moved into another document or shadow root
+        this.adoptStyles();
+        this.sizeObserver ??= new ResizeObserver(this.onGridResize);
+        this.observeGridSize();
+        this.columnObserver ??= new MutationObserver(this.onColumnMutations);
+        this.readDeclaredColumns();
+    }
     override disconnectedCallback() {
         super.disconnectedCallback();
+        document.removeEventListener('pointerup', this.onDocumentPointerUp);
         if(this.sortableColumns) this.sortableColumns.destroy();
         if(this.sortableRows) this.sortableRows.destroy();
+        this.scrollObserver?.disconnect();
+        this.scrollObserver = undefined;
+        this.sizeObserver?.disconnect();
+        this.columnObserver?.disconnect();
+    }
+
+    override firstUpdated() {
+        this.observeGridSize();
+    }
+
+    override updated(changedProperties: Map<PropertyKey, unknown>) {
+        const stateProperties = ['columns', 'gridTemplateColumns', 'sort', 'filter', 'groupBy'];
+        if(stateProperties.some(p => changedProperties.has(p))) this.saveState();
+        if(this.virtual) {
+            this.measureRowHeight();
+            this.observeScroller();
+        }
+        this.loadMoreIfNeeded();
     }
 
     //#endregion Lifecycle
+    //#region Declarative Columns
+    private columnObserver?: MutationObserver;
+    /**
+     * Whether the columns were last read from `<data-grid-column>` children
+     */
+    private hasDeclaredColumns = false;
+    /**
+     * Reads the `<data-grid-column>` children into `columns`, and watches them for changes
+     */
+    private readDeclaredColumns() {
+        const observer = this.columnObserver;
+        if(!observer) return;
+        const elements = [...this.querySelectorAll(':scope > data-grid-column')].filter(el => el instanceof DataGridColumn);
+        observer.disconnect();
+        observer.observe(this, {childList: true});
+        elements.forEach(element => observer.observe(element, {attributes: true, childList: true, subtree: true, characterData: true}));
+        if(elements.length) {
+            this.columns = elements.map(element => element.toColumn());
+        } else if(this.hasDeclaredColumns) {
+            this.columns = [];
+        }
+        this.hasDeclaredColumns = elements.length > 0;
+    }
+    private onColumnMutations = (records: MutationRecord[]) => {
+        // The grid renders into its own children, which only matter when a declaration is added or removed
+        const changed = records.some(record => record.target !== this
+            || [...record.addedNodes, ...record.removedNodes].some(node => node instanceof DataGridColumn));
+        if(changed) this.readDeclaredColumns();
+    }
+    //#endregion Declarative Columns
     //#region Cell Resizing
     @watch('columns')
-    handleColumnsChange() {
-        if(this.columns && this.gridTemplateColumns.length !== this.columns.length) this.initializeCellWidths();
+    handleColumnsChange(oldValue?: unknown) {
+        const previous = oldValue as Column<T>[] | undefined;
+        if(previous && previous !== this.columns && previous.length === this.gridTemplateColumns.length) {
+            // The widths follow their columns when the columns are replaced, such as by a host applying a reorder
+            const widths = new Map(previous.map((c, index) => [c.field, this.gridTemplateColumns[index]]));
+            const gridTemplateColumns = this.columns.map(c => widths.get(c.field) as number);
+            if(gridTemplateColumns.some((width, index) => width !== this.gridTemplateColumns[index])) {
+                this.gridTemplateColumns = gridTemplateColumns;
+            }
+        }
+        if(this.columns && (this.gridTemplateColumns.length !== this.columns.length || this.gridTemplateColumns.some(w => w === undefined))) {
+            this.initializeCellWidths();
+        }
+        this.distributeColumnWidths(this.observedWidth);
+        this.columns.forEach(c => {
+            if(!this.defaultHidden.has(c.field)) this.defaultHidden.set(c.field, !!c.hidden);
+        });
+        this.handleGridTemplateColumnsChange();
+        // Changes made during an update are rendered without the view being recomputed, so they wait until it ends
+        queueMicrotask(() => {
+            this.orderColumnsByPin();
+            this.applyPendingState();
+        });
     }
-    @watch('gridTemplateColumns')
+    @watch(['gridTemplateColumns', 'selectionMode', 'checkboxSelection'])
     async handleGridTemplateColumnsChange() {
-        this.style.setProperty('--grid-template-columns', this.gridTemplateColumns.map(v => `${v}%`).join(' '));
+        // Hidden columns have no cells, so they get no track either
+        const widths = this.gridTemplateColumns.filter((_, index) => !this.columns[index]?.hidden);
+        const tracks = widths.map(v => `${v}%`);
+        if(this.hasSelectionColumn) tracks.unshift('2.5em');
+        this.style.setProperty('--grid-template-columns', tracks.join(' '));
     }
-    private async initializeCellWidths() {
+    private initializeCellWidths() {
+        const existing = this.gridTemplateColumns.length > 1 ? this.gridTemplateColumns : [];
+        const gridWidth = this.gridWidth;
         this.gridTemplateColumns = this.columns.map((c, index) => {
-            const existingWidth = this.gridTemplateColumns.length > 1 ? this.gridTemplateColumns[index] : undefined;
-            return existingWidth ? existingWidth : c?.minWidth ? pixelsToPercentOfWidth(c?.minWidth, this.getBoundingClientRect().width) : 100 / this.columns.length - 1;
+            if(existing[index]) return existing[index];
+            if(c.width === undefined || c.flex !== undefined) this.flexibleColumns.add(c.field);
+            else if(gridWidth) return this.clampColumnWidth(index, pixelsToPercentOfWidth(c.width, gridWidth));
+            return 100 / this.columns.length - 1;
+        });
+    }
+    /**
+     * The fields of the columns sharing the space left by the others, in proportion to their `flex`.
+     * Columns with a `width` start fixed, and any column becomes fixed once it is resized.
+     */
+    private flexibleColumns = new Set<string>();
+    private sizeObserver?: ResizeObserver;
+    /**
+     * The width the columns were last laid out for
+     */
+    private observedWidth = 0;
+    /**
+     * The width the column percentages are relative to, in pixels
+     */
+    public get gridWidth() {
+        return this.scrollElement?.clientWidth || this.getBoundingClientRect().width;
+    }
+    /**
+     * Watches the scrolled area rather than the host, so a scrollbar appearing or going away lays the columns out again
+     */
+    private observeGridSize() {
+        const scroller = this.scrollElement;
+        if(scroller) this.sizeObserver?.observe(scroller);
+    }
+    private onGridResize = () => {
+        const width = this.gridWidth;
+        if(!width || width === this.observedWidth) return;
+        const previousWidth = this.observedWidth;
+        this.observedWidth = width;
+        this.distributeColumnWidths(previousWidth);
+    }
+    /**
+     * Lays the columns out for the current width of the grid:
+     * fixed columns keep their size in pixels and flexible ones share what is left, within their `minWidth` and `maxWidth`
+     * @param previousWidth - The width the current percentages were set for, 0 when the fixed columns take their `width`
+     */
+    private distributeColumnWidths(previousWidth: number) {
+        const gridWidth = this.gridWidth;
+        if(!gridWidth || this.gridTemplateColumns.length !== this.columns.length) return;
+        const widths = this.columns.map((c, index) => {
+            if(this.flexibleColumns.has(c.field)) return this.gridTemplateColumns[index];
+            const pixels = previousWidth ? this.gridTemplateColumns[index] * previousWidth / 100 : c.width;
+            return pixels === undefined ? this.gridTemplateColumns[index] : this.clampColumnWidth(index, pixelsToPercentOfWidth(pixels, gridWidth));
+        });
+        const selectionWidth = this.hasSelectionColumn ? parseFloat(getComputedStyle(this).fontSize) * 2.5 : 0;
+        let available = 100 - pixelsToPercentOfWidth(selectionWidth, gridWidth) - this.columns
+            .reduce((sum, c, index) => sum + (c.hidden || this.flexibleColumns.has(c.field) ? 0 : widths[index]), 0);
+        // Columns held at their minWidth or maxWidth drop out, and the others share again what they leave
+        let flexible = this.columns.map((column, index) => ({column, index}))
+            .filter(({column}) => !column.hidden && this.flexibleColumns.has(column.field));
+        while(flexible.length) {
+            const weights = flexible.reduce((sum, {column}) => sum + (column.flex ?? 1), 0);
+            const shares = flexible.map(({column, index}) => {
+                const share = Math.max(0, available) * (column.flex ?? 1) / weights;
+                return {index, share, clamped: this.clampColumnWidth(index, share)};
+            });
+            const clamped = shares.filter(({share, clamped}) => share !== clamped);
+            if(!clamped.length) {
+                // Rounded down so the columns never overflow the grid by a fraction of a pixel
+                shares.forEach(({index, share}) => widths[index] = Math.floor(share * 1000) / 1000);
+                break;
+            }
+            clamped.forEach(({index, clamped}) => {
+                widths[index] = clamped;
+                available -= clamped;
+            });
+            flexible = flexible.filter(({index}) => !clamped.some(c => c.index === index));
+        }
+        if(widths.some((width, index) => width !== this.gridTemplateColumns[index])) this.gridTemplateColumns = widths;
+    }
+    /**
+     * Clamps a width to the `minWidth` and `maxWidth` of a column
+     * @param index - The index of the column in `columns`
+     * @param width - The width, as a percentage of the grid
+     */
+    public clampColumnWidth(index: number, width: number) {
+        const column = this.columns[index];
+        const gridWidth = this.gridWidth;
+        if(!column || !gridWidth) return width;
+        const min = pixelsToPercentOfWidth(column.minWidth || 60, gridWidth);
+        const max = column.maxWidth ? pixelsToPercentOfWidth(column.maxWidth, gridWidth) : 100;
+        return Math.min(max, Math.max(min, width));
+    }
+    /**
+     * Whether the given column can be resized
+     */
+    public isColumnResizable(column: Column<T>) {
+        return !!this.resizable && column.resizable !== false;
+    }
+    /**
+     * Sets the width of a column, clamped to its `minWidth` and `maxWidth`
+     * @param index - The index of the column in `columns`
+     * @param width - The new width, as a percentage of the grid
+     */
+    public resizeColumn(index: number, width: number) {
+        if(!this.columns[index]) return;
+        const previous = this.gridTemplateColumns;
+        const gridTemplateColumns = [...previous];
+        gridTemplateColumns[index] = this.clampColumnWidth(index, width);
+        this.gridTemplateColumns = gridTemplateColumns;
+        this.commitColumnResize(index, previous);
+    }
+    /**
+     * Fits columns to their widest content, that of their header or of their rendered cells
+     * @param fields - The fields of the columns to fit, defaults to every visible column
+     */
+    public autoSizeColumns(fields: string[] = this.columns.filter(c => !c.hidden).map(c => c.field)) {
+        const headers = [...this.headerRowElement?.querySelectorAll(':scope > data-grid-column') ?? []] as DataGridColumn[];
+        const indexes = this.columns.map((c, index) => fields.includes(c.field) && !c.hidden ? index : -1).filter(index => index !== -1);
+        const gridWidth = this.gridWidth;
+        if(!indexes.length || !gridWidth) return;
+        // Laying the columns out at their max-content size measures their header and cells at once
+        const tracks = this.columns
+            .map((c, index) => c.hidden ? undefined : indexes.includes(index) ? 'max-content' : `${this.gridTemplateColumns[index]}%`)
+            .filter(track => track !== undefined);
+        if(this.hasSelectionColumn) tracks.unshift('2.5em');
+        this.style.setProperty('--grid-template-columns', tracks.join(' '));
+        const measured = new Map(headers.map(header => [header.index, header.getBoundingClientRect().width]));
+        const previous = this.gridTemplateColumns;
+        const gridTemplateColumns = [...previous];
+        indexes.forEach(index => {
+            const pixels = measured.get(index);
+            if(pixels) gridTemplateColumns[index] = this.clampColumnWidth(index, pixelsToPercentOfWidth(Math.ceil(pixels), gridWidth));
+        });
+        this.gridTemplateColumns = gridTemplateColumns;
+        this.handleGridTemplateColumnsChange();
+        this.commitColumnWidths(previous, indexes);
+    }
+    /**
+     * Fits a single column to its widest content, as double-clicking its resize handle does
+     */
+    public autoSizeColumn(field: string) {
+        this.autoSizeColumns([field]);
+    }
+    /**
+     * Returns a column to the width it started with: its `width`, or a flexible share of the grid
+     */
+    public resetColumnWidth(field: string) {
+        const index = this.columns.findIndex(c => c.field === field);
+        const column = this.columns[index];
+        const gridWidth = this.gridWidth;
+        if(!column || !gridWidth) return;
+        const previous = this.gridTemplateColumns;
+        const previousFlexible = new Set(this.flexibleColumns);
+        if(column.width === undefined || column.flex !== undefined) {
+            this.flexibleColumns.add(field);
+        } else {
+            this.flexibleColumns.delete(field);
+            const gridTemplateColumns = [...previous];
+            gridTemplateColumns[index] = this.clampColumnWidth(index, pixelsToPercentOfWidth(column.width, gridWidth));
+            this.gridTemplateColumns = gridTemplateColumns;
+        }
+        this.distributeColumnWidths(gridWidth);
+        this.commitColumnWidths(previous, [index], false, previousFlexible);
+    }
+    /**
+     * Finishes a resize: records it so it can be undone and fires `column-resize`.
+     * The header calls it once a drag ends, so the whole drag is a single step.
+     * @param index - The index of the resized column in `columns`
+     * @param previous - The widths before the resize
+     */
+    public commitColumnResize(index: number, previous: number[]) {
+        this.commitColumnWidths(previous, [index]);
+    }
+    /**
+     * Records resized columns and fires `column-resize` for each of them
+     * @param fix - Whether the columns keep their new size from now on, rather than sharing the grid with the flexible ones
+     * @param previousFlexible - The flexible columns before the resize, when the caller has already changed them
+     */
+    private commitColumnWidths(previous: number[], indexes: number[], fix = true, previousFlexible = new Set(this.flexibleColumns)) {
+        const next = this.gridTemplateColumns;
+        const changed = indexes.filter(index => previous[index] !== next[index]);
+        if(fix) changed.forEach(index => this.flexibleColumns.delete(this.columns[index].field));
+        const nextFlexible = new Set(this.flexibleColumns);
+        const flexibleChanged = [...previousFlexible].some(field => !nextFlexible.has(field)) || previousFlexible.size !== nextFlexible.size;
+        if(previous.length !== next.length || (!changed.length && !flexibleChanged)) return;
+        // Undoing a resize makes the column share the free space again, as it did before
+        this.recordHistory({
+            undo: () => this.restoreColumnWidths(previous, previousFlexible),
+            redo: () => this.restoreColumnWidths(next, nextFlexible)
         });
-        await this.handleGridTemplateColumnsChange();
+        const widths = Object.fromEntries(this.columns.map((c, i) => [c.field, next[i]]));
+        changed.forEach(index => {
+            const detail: ColumnResizeDetail = {field: this.columns[index].field, width: next[index], widths};
+            emit(this, 'column-resize', detail);
+        });
+    }
+    private restoreColumnWidths(widths: number[], flexible: Set<string>) {
+        this.flexibleColumns = new Set(flexible);
+        this.gridTemplateColumns = widths;
     }
     //#endregion Cell Resizing
     //#region Cell Reordering
@@ -113,6 +650,10 @@ export class DataGrid extends LitElement {
     private sortableRows?: Sortable;
     private colBefore?: ChildNode | null;
     private rowBefore?: ChildNode | null;
+    /**
+     * Shared by the header and the group-by drop zone so columns can be dragged between them
+     */
+    private sortableGroup = `data-grid-columns-${gridCount++}`;
     @watch('reorderable')
     async handleSortableColumnChange() {
         await this.updateComplete;
@@ -120,8 +661,9 @@ export class DataGrid extends LitElement {
             if(this.sortableColumns) this.sortableColumns.destroy();
             if(this.sortableRows) this.sortableRows.destroy();
         } else {
-                this.sortableColumns = new Sortable(this.querySelector('.head data-grid-row') as HTMLElement, {
+                this.sortableColumns = new Sortable(this.headerRowElement as HTMLElement, {
                     handle: '[slot="reorder-handle"]', // handle's class
+                    group: {name: this.sortableGroup, pull: true, put: false},
                     animation: 150,
                     draggable: 'data-grid-column',
                     direction: 'horizontal',
@@ -134,18 +676,32 @@ export class DataGrid extends LitElement {
                     onStart: (e: Sortable.SortableEvent) => {
                         this.colBefore = e.item.previousSibling;
                     },
+                    onMove: (e: Sortable.MoveEvent) => {
+                        // Columns stay within their pinned region
+                        const dragged = this.columns[(e.dragged as DataGridColumn).index];
+                        const related = e.related instanceof DataGridColumn ? this.columns[e.related.index] : undefined;
+                        return !related || related.pinned === dragged?.pinned;
+                    },
                     onEnd: (e: Sortable.SortableEvent) => {
-                        const to = e.newIndex;
-                        const from = e.oldIndex;
+                        if(e.to !== e.from) {
+                            // Dropped on the group-by zone, put the header back and group by it
+                            if(this.colBefore) this.colBefore.after(e.item);
+                            this.colBefore = undefined;
+                            this.addGroupBy((e.item as DataGridColumn).field);
+                            return;
+                        }
+                        // Sortable indexes skip hidden columns
+                        const visible = this.columns.filter(c => !c.hidden);
+                        const from = this.columns.indexOf(visible[e.oldIndex as number]);
+                        const to = this.columns.indexOf(visible[e.newIndex as number]);
                         if(this.colBefore) this.colBefore.after(e.item);
-                        this.columns.splice(to as number, 0, this.columns.splice(from as number, 1)[0]);
+                        this.moveColumn(from, to);
                         this.colBefore = undefined;
-                        this.requestUpdate();
                     }
                 });
-                this.sortableRows = new Sortable(this.querySelector('.body') as HTMLElement, {
+                this.sortableRows = new Sortable(this.bodyElement as HTMLElement, {
                     animation: 150,
-                    draggable: 'data-grid-row',
+                    draggable: 'data-grid-row[data-index]',
                     direction: 'vertical',
                     easing: 'cubic-bezier(1, 0, 0, 1)',
                     dataIdAttr: 'data-index',
@@ -154,113 +710,1977 @@ export class DataGrid extends LitElement {
                     chosenClass: 'chosen',
                     dragClass: 'dragging',
                     swapClass: 'highlighted',
+                    // Dragging over cells selects them instead, and nested grids reorder their own rows
+                    filter: (e: Event) => this.cellSelection || !!(e.target as HTMLElement).closest('.detail-row'),
+                    preventOnFilter: false,
                     onStart: (e: Sortable.SortableEvent) => {
                         this.rowBefore = e.item.previousSibling;
                     },
+                    // Rows can't leave their group
+                    onMove: () => !this.groupBy.length,
                     onEnd: (e: Sortable.SortableEvent) => {
                         if(this.rowBefore) this.rowBefore.after(e.item);
-                        this.rows.splice(e.newIndex as number, 0, this.rows.splice(e.oldIndex as number, 1)[0]);
-                        this.requestUpdate();
+                        // Sortable indexes point into the rendered rows, which may be a virtual window
+                        const from = Number(e.item.dataset.index);
+                        this.moveRow(from, from + (e.newIndex as number) - (e.oldIndex as number));
                         this.rowBefore = undefined;
                     }
                 });
             }
     }
+    /**
+     * Moves a column, along with its width
+     * @param from - The index of the column in `columns`
+     * @param to - The index to move it to
+     */
+    public moveColumn(from: number, to: number) {
+        if(from === to || from < 0 || to < 0 || from >= this.columns.length || to >= this.columns.length) return;
+        if(this.columns[from].pinned !== this.columns[to].pinned) return;
+        if(this.controlled) {
+            const columns = [...this.columns];
+            columns.splice(to, 0, columns.splice(from, 1)[0]);
+            const detail: ColumnsReorderDetail<T> = {columns, from, to};
+            emit(this, 'columns-reorder', detail);
+            return;
+        }
+        this.columns.splice(to, 0, this.columns.splice(from, 1)[0]);
+        const gridTemplateColumns = [...this.gridTemplateColumns];
+        gridTemplateColumns.splice(to, 0, gridTemplateColumns.splice(from, 1)[0]);
+        this.gridTemplateColumns = gridTemplateColumns;
+        this.requestUpdate();
+        this.recordHistory({undo: () => this.moveColumn(to, from), redo: () => this.moveColumn(from, to)});
+    }
+    /**
+     * Moves a row in `rows`
+     * @param from - The index of the row in the rendered view, which may be sorted or filtered
+     * @param to - The index in the rendered view to move it to
+     */
+    public moveRow(from: number, to: number) {
+        if(this.groupBy.length) return;
+        const row = this.viewRows[from];
+        const target = this.viewRows[to];
+        if(!row || !target || row === target) return;
+        const rows = this.controlled ? [...this.rows] : this.rows;
+        const oldIndex = rows.indexOf(row);
+        rows.splice(oldIndex, 1);
+        const targetIndex = rows.indexOf(target);
+        const newIndex = to > from ? targetIndex + 1 : targetIndex;
+        rows.splice(newIndex, 0, row);
+        if(this.controlled) {
+            const detail: RowsReorderDetail<T> = {rows, rowId: this.getRowKey(row), from: oldIndex, to: newIndex};
+            emit(this, 'rows-reorder', detail);
+            return;
+        }
+        this.requestUpdate('rows');
+        this.recordHistory({undo: () => this.moveRowTo(row, oldIndex), redo: () => this.moveRowTo(row, newIndex)});
+    }
+    /**
+     * Moves a row to an index of `rows`, as undoing and redoing a move does
+     */
+    private moveRowTo(row: T, index: number) {
+        const current = this.rows.indexOf(row);
+        if(current === -1) return;
+        this.rows.splice(current, 1);
+        this.rows.splice(index, 0, row);
+        this.requestUpdate('rows');
+    }
     //#endregion Cell Reordering
-    //#region Cell Rendering
-    private renderCell(row: Row, column: Column, index: number) {
-        if(column.render) {
-            // this.updateComplete.then(() => {
-                /**
-                 * Add Ability to render children from any framework
-                 */
-                // @ts-ignore - Column is checked above
-                const children = column.render(row[column.field], index);
-                if(children instanceof HTMLElement || children._$litType$) {
-                    return children;
-                } else if (typeof children === 'string') {
-                    return unsafeCSS(children);
-                } else if (typeof children === 'function' && this.renderer) {
-                    const div = document.createElement('div');
-                    this.renderer(children, div);
-                    return div;
-                } else {
-                    return nothing;
-                }
-            // });
-            // return children;
+    //#region Virtualization
+    @state() private virtualRange = {start: 0, end: 0};
+    private estimatedRowHeight = 36;
+    private scrollObserver?: ResizeObserver;
+    private get bodyElement() {
+        return this.querySelector(':scope > .grid > .body') as HTMLElement | null;
+    }
+    /**
+     * The element that scrolls, in both directions, so the sticky header and pinned columns share it
+     */
+    private get scrollElement() {
+        return this.querySelector(':scope > .grid') as HTMLElement | null;
+    }
+    /**
+     * The part of the body scrolled into view, in pixels from the top of the body
+     */
+    private getBodyViewport() {
+        const scroller = this.scrollElement;
+        const body = this.bodyElement;
+        if(!scroller || !body) return undefined;
+        // The sticky header covers the top of the scrolled area
+        return {top: scroller.scrollTop, height: Math.max(0, scroller.clientHeight - body.offsetTop)};
+    }
+    private get virtualRowHeight() {
+        return this.rowHeight || this.estimatedRowHeight;
+    }
+    @watch('rowHeight')
+    handleRowHeightChange() {
+        if(this.rowHeight) {
+            this.style.setProperty('--row-height', `${this.rowHeight}px`);
         } else {
-            return row[column.field];
+            this.style.removeProperty('--row-height');
         }
     }
-    //#endregion Cell Rendering
-    render() {
-        return html`
-            <div class="grid">
-                <div class="head">
-                    <data-grid-row>
-                        ${this.columns.map((column, idx) => html`
-                            <data-grid-column .index=${idx}>
-                                <div slot="reorder-handle"></div>
-                                ${column?.label}
-                            </data-grid-column>
-                        `)}
-                    </data-grid-row>
-                </div>
-                <div class="body">
-                ${this.rows.map((row, idx) => html`
-                    <data-grid-row>
-                        ${this.columns.map((column) => {
-                            const cellRef: Ref<Element> = createRef();
-                            return html`
-                            <data-grid-cell ${ref(cellRef)}>
-                                ${this.renderCell(row, column, idx)}
-                            </data-grid-cell>
-                        `
-                        })}
-                    </data-grid-row>
-                `)}
-                </div>
-            </div>
-        `
+    /**
+     * Averages the height of the rendered rows to estimate the height of the ones that aren't
+     */
+    private measureRowHeight() {
+        if(this.rowHeight || !this.bodyElement) return;
+        const rows = [...this.bodyElement.querySelectorAll(':scope > data-grid-row')];
+        if(!rows.length) return;
+        const average = rows.reduce((sum, row) => sum + row.getBoundingClientRect().height, 0) / rows.length;
+        if(average > 0 && Math.abs(average - this.estimatedRowHeight) > 0.5) this.estimatedRowHeight = average;
     }
-
-    static styles = css`
-        :host {
-            --grid-template-columns: auto;
-        }
-        .grid {
-            display: grid;
-            grid-template-columns: var(--grid-template-columns);
+    /**
+     * The display items in or near the viewport, before the grid is rendered the window's height is assumed
+     */
+    private getVirtualRange() {
+        const viewport = this.getBodyViewport() ?? {top: 0, height: window.innerHeight};
+        const height = this.virtualRowHeight;
+        const start = Math.max(0, Math.floor(viewport.top / height) - this.overscan);
+        const end = Math.min(this.displayItems.length, Math.ceil((viewport.top + viewport.height) / height) + this.overscan);
+        return start === this.virtualRange.start && end === this.virtualRange.end ? this.virtualRange : {start, end};
+    }
+    private updateVirtualRange = () => {
+        if(!this.virtual) return;
+        this.virtualRange = this.getVirtualRange();
+    }
+    /**
+     * Recomputes the rendered range when the scrolled area is resized, which also follows the first measured row height
+     */
+    private observeScroller() {
+        const scroller = this.scrollElement;
+        if(this.scrollObserver || !scroller) return;
+        this.scrollObserver = new ResizeObserver(this.updateVirtualRange);
+        this.scrollObserver.observe(scroller);
+    }
+    private getRowKey(row: T) {
+        return this.getRowId ? this.getRowId(row) : row;
+    }
+    private onScroll = () => {
+        this.updateVirtualRange();
+        this.loadMoreIfNeeded();
+    }
+    //#endregion Virtualization
+    //#region Data Source
+    /**
+     * Whether the data source is loading rows
+     */
+    @property({type: Boolean, reflect: true}) loading = false;
+    /**
+     * The number of rows the data source has, across every page
+     */
+    @state() public totalCount = 0;
+    /**
+     * The error thrown by the last data source request
+     */
+    @state() public loadError?: unknown;
+    private blockCache = new BlockCache<T>();
+    private loadController?: AbortController;
+    private resetDataSource() {
+        this.blockCache.clear();
+        this.loadController?.abort();
+        if(!this.dataSource) {
+            this.loading = false;
+            this.loadError = undefined;
         }
-
-        .head, .body {
-            display: grid;
-            box-sizing: border-box;
-            grid-template-columns: subgrid;
-            grid-column: 1/-1;
+    }
+    /**
+     * Requests rows from the data source, cancelling any request still in flight
+     * @param append - Whether to add the next block to the loaded rows, as infinite scrolling does
+     */
+    public async loadData(append = false) {
+        const dataSource = this.dataSource;
+        if(!dataSource) return;
+        this.loadController?.abort();
+        const controller = new AbortController();
+        this.loadController = controller;
+        const params = {
+            offset: this.dataSourceMode === 'infinite' ? (append ? this.rows.length : 0) : (this.page - 1) * this.pageSize,
+            limit: this.pageSize,
+            sort: this.sort,
+            filter: this.filter,
+            quickFilter: this.quickFilter
+        };
+        const key = BlockCache.key(params);
+        this.loading = true;
+        this.loadError = undefined;
+        try {
+            const result = this.blockCache.get(key) ?? await dataSource({...params, signal: controller.signal});
+            if(controller.signal.aborted) return;
+            this.blockCache.set(key, result);
+            this.totalCount = result.totalCount;
+            const rows = append ? [...this.rows, ...result.rows] : result.rows;
+            if(this.controlled) {
+                emit(this, 'rows-load', {rows, totalCount: result.totalCount});
+            } else {
+                this.rows = rows;
+            }
+        } catch (e) {
+            if(controller.signal.aborted) return;
+            this.loadError = e;
+            emit(this, 'data-error', {error: e});
+        } finally {
+            if(this.loadController === controller) {
+                this.loadController = undefined;
+                this.loading = false;
+            }
         }
-        
-        [slot="reorder-handle"] {
-            cursor: grab;
-            display: inline-block;
-            width: 16px;
-            height: 16px;
-            background-color: lightgray;
-            margin-right: 4px;
+    }
+    /**
+     * Drops the cached blocks and reloads the current page
+     */
+    public refresh() {
+        this.blockCache.clear();
+        return this.loadData();
+    }
+    private loadMoreIfNeeded() {
+        if(!this.dataSource || this.dataSourceMode !== 'infinite' || this.loading || this.loadError) return;
+        const scroller = this.scrollElement;
+        if(!scroller || this.rows.length >= this.totalCount) return;
+        // Start loading once less than half a screen of rows is left below
+        if(scroller.scrollTop + scroller.clientHeight >= scroller.scrollHeight - scroller.clientHeight / 2) this.loadData(true);
+    }
+    private renderStatus() {
+        if(!this.dataSource) return nothing;
+        if(this.loadError) {
+            const message = this.loadError instanceof Error ? this.loadError.message : String(this.loadError);
+            return html`
+                <div class="status error" role="alert">
+                    Failed to load rows: ${message}
+                    <button @click=${() => this.loadData(this.dataSourceMode === 'infinite' && this.rows.length > 0)}>Retry</button>
+                </div>
+            `
         }
-    `
-
-    override createRenderRoot() {
-        /**
-         * Rendering this in Light DOM allows for styling to bleed through
-         * from the users stylesheets
-         */
-        const sheet = new CSSStyleSheet();
-        sheet.replaceSync(DataGrid.styles.toString());
-        document.adoptedStyleSheets = [...document.adoptedStyleSheets, sheet];
+        if(this.loading) return html`<div class="status" role="status">Loading…</div>`;
+        if(!this.rows.length) return html`<div class="status" role="status">No rows</div>`;
+        return nothing;
+    }
+    //#endregion Data Source
+    //#region Pagination
+    /**
+     * The number of filtered rows split into pages
+     */
+    private filteredRowCount = 0;
+    /**
+     * The number of rows across every page, as filtered, or as the data source reported
+     */
+    public get pagedRowCount() {
+        return this.dataSource ? this.totalCount : this.filteredRowCount;
+    }
+    public get pageCount() {
+        return Math.max(1, Math.ceil(this.pagedRowCount / Math.max(1, this.pageSize)));
+    }
+    private get hasPager() {
+        return this.pagination && !(this.dataSource && this.dataSourceMode === 'infinite');
+    }
+    /**
+     * The rows of the current page, moving back to the last page when there are fewer pages than before
+     */
+    private paginateRows(rows: T[]) {
+        // The data source has already returned a single page
+        if(!this.pagination || this.dataSource) return rows;
+        this.filteredRowCount = rows.length;
+        if(this.page > this.pageCount || this.page < 1) this.changePage(Math.min(Math.max(1, this.page), this.pageCount));
+        const start = (this.page - 1) * this.pageSize;
+        return rows.slice(start, start + this.pageSize);
+    }
+    /**
+     * Shows a page, clamped to those there are
+     */
+    public setPage(page: number) {
+        page = Math.min(Math.max(1, Math.trunc(page)), this.pageCount);
+        if(isNaN(page) || !this.changePage(page)) return;
+        if(this.scrollElement) this.scrollElement.scrollTop = 0;
+    }
+    /**
+     * Moves to a page, telling the host so a bound `page` doesn't go stale
+     * @returns whether the page changed
+     */
+    private changePage(page: number) {
+        if(page === this.page) return false;
+        this.page = page;
+        emit(this, 'page-change', {page, pageSize: this.pageSize});
+        return true;
+    }
+    /**
+     * Changes how many rows a page holds, showing the page that has the first row of the current one
+     */
+    public setPageSize(pageSize: number) {
+        if(!(pageSize > 0) || pageSize === this.pageSize) return;
+        const page = Math.floor((this.page - 1) * this.pageSize / pageSize) + 1;
+        this.pageSize = pageSize;
+        this.page = page;
+        emit(this, 'page-change', {page, pageSize});
+    }
+    //#endregion Pagination
+    //#region Sorting
+    /**
+     * Whether the given column can be sorted
+     */
+    public isColumnSortable(column: Column<T>) {
+        return !!this.sortable && column.sortable !== false;
+    }
+    /**
+     * Cycles the sort of a column through asc → desc → none.
+     * @param field - The field of the column to sort
+     * @param multi - Whether to add the column to the existing sort instead of replacing it
+     */
+    public toggleSort(field: string, multi = false) {
+        const column = this.columns.find(c => c.field === field);
+        if(!column || !this.isColumnSortable(column)) return;
+        const current = this.sort.find(s => s.field === field);
+        const direction = !current ? 'asc' : current.direction === 'asc' ? 'desc' : undefined;
+        let sort: SortItem[];
+        if(multi) {
+            sort = current
+                ? this.sort.flatMap(s => s.field !== field ? [s] : direction ? [{field, direction}] : [])
+                // Beyond the limit the new column takes the place of the last one, the leading sorts are kept
+                : [...this.sort.slice(0, Math.max(1, this.maxSortColumns) - 1), {field, direction: 'asc' as const}];
+        } else {
+            sort = direction ? [{field, direction}] : [];
+        }
+        this.setSort(sort);
+    }
+    /**
+     * Sorts by a single column in the given direction, or removes the column from the sort
+     * @param field - The field of the column to sort
+     * @param direction - The direction to sort in, clears the column's sort when omitted
+     */
+    public setColumnSort(field: string, direction?: SortDirection) {
+        const column = this.columns.find(c => c.field === field);
+        if(!column || !this.isColumnSortable(column)) return;
+        this.setSort(direction ? [{field, direction}] : this.sort.filter(s => s.field !== field));
+    }
+    private setSort(sort: SortItem[]) {
+        const previous = this.sort;
+        this.sort = sort;
+        emit(this, 'sort-change', {sort});
+        this.recordHistory({undo: () => this.setSort(previous), redo: () => this.setSort(sort)});
+    }
+    private computeViewRows() {
+        // The data source has already sorted and filtered what it returned
+        if(this.dataSource) return this.rows;
+        const filter = Object.fromEntries(Object.entries(this.filter)
+            .filter(([field]) => this.columns.some(c => c.field === field && this.isColumnFilterable(c))));
+        const rows = filterRows(this.rows, filter, this.quickFilter, this.columns);
+        const sort = this.sort.filter(s => this.columns.some(c => c.field === s.field && this.isColumnSortable(c)));
+        return sortRows(rows, sort, this.columns);
+    }
+    private getColumnSort(column: Column<T>) {
+        const index = this.sort.findIndex(s => s.field === column.field);
+        return index === -1 ? undefined : {direction: this.sort[index].direction, index};
+    }
+    //#endregion Sorting
+    //#region Filtering
+    /**
+     * Whether the given column can be filtered
+     */
+    public isColumnFilterable(column: Column<T>) {
+        return !!this.filterable && column.filterable !== false;
+    }
+    /**
+     * Sets or clears the filter of a single column
+     * @param field - The field of the column to filter
+     * @param filter - The filter to apply, or undefined to clear it
+     */
+    public setColumnFilter(field: string, filter?: ColumnFilter) {
+        const {[field]: _previous, ...rest} = this.filter;
+        // Successive edits of the same filter, such as typing, are a single step
+        this.setFilter(filter ? {...rest, [field]: filter} : rest, `filter:${field}`);
+    }
+    private setFilter(filter: FilterModel, mergeKey?: string) {
+        const previous = this.filter;
+        this.filter = filter;
+        emit(this, 'filter-change', {filter});
+        this.recordHistory({undo: () => this.setFilter(previous), redo: () => this.setFilter(filter)}, mergeKey);
+    }
+    //#endregion Filtering
+    //#region Column Visibility
+    /**
+     * The hidden flag of each column when it was first seen, restored by `resetColumnVisibility()`
+     */
+    private defaultHidden = new Map<string, boolean>();
+    /**
+     * Whether the given column can be hidden
+     */
+    public isColumnHideable(column: Column<T>) {
+        return !!this.hideable && column.hideable !== false;
+    }
+    /**
+     * Shows or hides columns, keeping at least one column visible
+     * @param hidden - The hidden flag to apply, keyed by field
+     */
+    public setColumnsHidden(hidden: Record<string, boolean>) {
+        const columns = this.columns.map(c => {
+            const next = hidden[c.field];
+            if(next === undefined || !!c.hidden === next || (next && !this.isColumnHideable(c))) return c;
+            return {...c, hidden: next};
+        });
+        if(columns.every((c, index) => c === this.columns[index]) || columns.every(c => c.hidden)) return;
+        if(!this.controlled) this.columns = columns;
+        emit(this, 'column-visibility-change', {hidden: columns.filter(c => c.hidden).map(c => c.field), columns});
+    }
+    /**
+     * Hides a single column
+     */
+    public hideColumn(field: string) {
+        this.setColumnsHidden({[field]: true});
+    }
+    /**
+     * Shows a single column
+     */
+    public showColumn(field: string) {
+        this.setColumnsHidden({[field]: false});
+    }
+    /**
+     * Shows every column
+     */
+    public showAllColumns() {
+        this.setColumnsHidden(Object.fromEntries(this.columns.map(c => [c.field, false])));
+    }
+    /**
+     * Restores the hidden flags the columns were first given
+     */
+    public resetColumnVisibility() {
+        this.setColumnsHidden(Object.fromEntries(this.columns.map(c => [c.field, !!this.defaultHidden.get(c.field)])));
+    }
+    //#endregion Column Visibility
+    //#region Column Pinning
+    /**
+     * Pins a column to a side, or unpins it
+     * @param field - The field of the column
+     * @param pinned - The side to pin to, or undefined to unpin
+     */
+    public setColumnPinned(field: string, pinned?: PinnedSide) {
+        const column = this.columns.find(c => c.field === field);
+        if(!column || column.pinned === pinned) return;
+        const columns = this.sortColumnsByPin(this.columns.map(c => c === column ? {...c, pinned} : c));
+        if(!this.controlled) this.columns = columns;
+        emit(this, 'column-pin-change', {field, pinned, columns});
+    }
+    /**
+     * Keeps left pinned columns first and right pinned columns last, their widths follow them on the next update
+     */
+    private orderColumnsByPin() {
+        const columns = this.sortColumnsByPin(this.columns);
+        if(columns === this.columns) return;
+        if(this.controlled) {
+            emit(this, 'columns-change', {columns});
+        } else {
+            this.columns = columns;
+        }
+    }
+    /**
+     * @returns The columns with the left pinned ones first and the right pinned ones last, or the same array when they already are
+     */
+    private sortColumnsByPin(columns: Column<T>[]) {
+        const rank = (c: Column<T>) => c.pinned === 'left' ? 0 : c.pinned === 'right' ? 2 : 1;
+        const order = columns.map((_, index) => index)
+            .sort((a, b) => rank(columns[a]) - rank(columns[b]) || a - b);
+        return order.every((value, index) => value === index) ? columns : order.map(index => columns[index]);
+    }
+    /**
+     * Works out the sticky offset of each pinned column from the widths of the pinned columns before it
+     * @returns The side, offset and whether it borders the scrolling columns, keyed by index in `columns`
+     */
+    private getPinnedPositions(columns: {column: Column<T>, index: number}[]) {
+        const positions = new Map<number, {side: PinnedSide, offset: string, edge: boolean}>();
+        (['left', 'right'] as const).forEach(side => {
+            const pinned = columns.filter(({column}) => column.pinned === side);
+            if(side === 'right') pinned.reverse();
+            const widths = side === 'left' && this.hasSelectionColumn ? ['2.5em'] : [];
+            pinned.forEach(({index}, i) => {
+                positions.set(index, {side, offset: `calc(${['0px', ...widths].join(' + ')})`, edge: i === pinned.length - 1});
+                widths.push(`${this.gridTemplateColumns[index]}%`);
+            });
+        });
+        return positions;
+    }
+    /**
+     * The offset of a pinned cell, followed by any other styles of the cell
+     */
+    private getPinnedStyle(position?: {side: PinnedSide, offset: string}, style?: string) {
+        return [position && `${position.side}: ${position.offset}`, style].filter(Boolean).join('; ') || nothing;
+    }
+    //#endregion Column Pinning
+    //#region Row Grouping
+    /**
+     * The keys of the collapsed groups
+     */
+    @state() private collapsedGroups = new Set<string>();
+    private groupZoneSortable?: Sortable;
+    /**
+     * Whether the given column can be grouped by
+     */
+    public isColumnGroupable(column: Column<T>) {
+        return !!this.groupable && !this.groupBy.includes(column.field);
+    }
+    /**
+     * Groups the rows by the given fields, outermost first
+     */
+    public setGroupBy(groupBy: string[]) {
+        if(groupBy.length === this.groupBy.length && groupBy.every((field, index) => field === this.groupBy[index])) return;
+        this.groupBy = groupBy;
+        emit(this, 'group-by-change', {groupBy});
+    }
+    /**
+     * Adds a field to the end of the grouping
+     */
+    public addGroupBy(field: string) {
+        const column = this.columns.find(c => c.field === field);
+        if(column && this.isColumnGroupable(column)) this.setGroupBy([...this.groupBy, field]);
+    }
+    public removeGroupBy(field: string) {
+        this.setGroupBy(this.groupBy.filter(f => f !== field));
+    }
+    /**
+     * Expands or collapses a group
+     * @param key - The key of the group
+     * @param expanded - Whether to expand it, toggles when omitted
+     */
+    public toggleGroup(key: string, expanded = this.collapsedGroups.has(key)) {
+        if(expanded !== this.collapsedGroups.has(key)) return;
+        const collapsedGroups = new Set(this.collapsedGroups);
+        if(expanded) {
+            collapsedGroups.delete(key);
+        } else {
+            collapsedGroups.add(key);
+        }
+        this.collapsedGroups = collapsedGroups;
+        emit(this, 'group-toggle', {key, expanded});
+    }
+    @watch('groupable')
+    async handleGroupableChange() {
+        await this.updateComplete;
+        this.groupZoneSortable?.destroy();
+        this.groupZoneSortable = undefined;
+        const zone = this.querySelector(':scope > .group-by-zone') as HTMLElement | null;
+        if(!zone) return;
+        this.groupZoneSortable = new Sortable(zone, {
+            group: {name: this.sortableGroup, pull: false, put: true},
+            draggable: '.group-chip',
+            sort: false
+        });
+    }
+    /**
+     * Builds the rendered entries from the filtered and sorted rows, nesting them in groups when grouped
+     */
+    private updateDisplayItems(rows: T[]) {
+        const items: DisplayItem<T>[] = [];
+        const aggregated = this.columns.some(c => c.aggregate);
+        const groupBy = this.groupBy.filter(field => this.columns.some(c => c.field === field));
+        const pushRow = (row: T) => {
+            items.push({type: 'row', row, index: 0});
+            const detail = this.detailRenderer && this.details.get(this.getRowKey(row));
+            if(detail) items.push({type: 'detail', row, detail});
+        };
+        const walk = (groups: RowGroup<T>[]) => groups.forEach(group => {
+            items.push({type: 'group', group});
+            if(this.collapsedGroups.has(group.key)) return;
+            if(group.children) {
+                walk(group.children);
+            } else {
+                group.rows.forEach(pushRow);
+            }
+            if(aggregated) items.push({type: 'footer', key: group.key, rows: group.rows, depth: group.depth});
+        });
+        if(groupBy.length) {
+            walk(groupRows(rows, groupBy, this.columns, this.sort));
+        } else {
+            rows.forEach(pushRow);
+        }
+        if(this.grandTotal && aggregated) items.push({type: 'footer', key: 'total', rows, depth: 0});
+        this.viewRows = [];
+        this.rowDisplayIndex = [];
+        items.forEach((item, index) => {
+            if(item.type !== 'row') return;
+            item.index = this.viewRows.length;
+            this.viewRows.push(item.row);
+            this.rowDisplayIndex.push(index);
+        });
+        this.displayItems = items;
+    }
+    private formatAggregate(value: unknown) {
+        if(typeof value === 'number') return value.toLocaleString(undefined, {maximumFractionDigits: 2});
+        if(value instanceof Date) return value.toLocaleDateString();
+        return value === undefined || value === null ? '' : String(value);
+    }
+    private renderGroupByZone() {
+        return html`
+            <div class="group-by-zone" aria-label="Group by">
+                ${this.groupBy.length ? this.groupBy.map(field => html`
+                    <span class="group-chip">
+                        ${this.columns.find(c => c.field === field)?.label ?? field}
+                        <button aria-label="Remove grouping" @click=${() => this.removeGroupBy(field)}>×</button>
+                    </span>
+                `) : html`<span class="group-by-placeholder">Drag a column header here to group by it</span>`}
+            </div>
+        `
+    }
+    private renderGroupRow(group: RowGroup<T>, displayIndex: number) {
+        const expanded = !this.collapsedGroups.has(group.key);
+        const label = this.columns.find(c => c.field === group.field)?.label ?? group.field;
+        return html`
+            <data-grid-row class="group-row" aria-level=${group.depth + 1} aria-expanded=${String(expanded)}
+                           aria-rowindex=${displayIndex + this.headerRowCount + 1}>
+                <data-grid-cell class="group-cell" style="padding-left: ${group.depth * 1.5 + 0.5}em">
+                    <button class="group-toggle" aria-label=${expanded ? 'Collapse group' : 'Expand group'}
+                            @click=${() => this.toggleGroup(group.key)}>${expanded ? '▾' : '▸'}</button>
+                    ${label}: ${group.value === null || group.value === undefined || group.value === '' ? '(Blank)' : this.formatAggregate(group.value)}
+                    <span class="group-count">(${group.rows.length})</span>
+                </data-grid-cell>
+            </data-grid-row>
+        `
+    }
+    private renderFooterRow(item: Extract<DisplayItem<T>, {type: 'footer'}>, displayIndex: number,
+                            columns: {column: Column<T>, index: number}[], pinned: ReturnType<DataGrid<T>['getPinnedPositions']>) {
+        return html`
+            <data-grid-row class=${item.key === 'total' ? 'grand-total' : 'group-footer'}
+                           aria-rowindex=${displayIndex + this.headerRowCount + 1}>
+                ${this.hasSelectionColumn ? html`<data-grid-cell class="selection-cell" data-pinned="left"></data-grid-cell>` : nothing}
+                ${columns.map(({column, index}) => html`
+                    <data-grid-cell data-pinned=${pinned.get(index)?.side ?? nothing} ?data-pinned-edge=${pinned.get(index)?.edge}
+                                    style=${this.getPinnedStyle(pinned.get(index))}>
+                        ${this.formatAggregate(aggregate(column, item.rows))}
+                    </data-grid-cell>
+                `)}
+            </data-grid-row>
+        `
+    }
+    //#endregion Row Grouping
+    //#region Row Details
+    /**
+     * The detail panels of the expanded rows, keyed by row id
+     */
+    @state() private details = new Map<unknown, RowDetail>();
+    public isRowExpanded(row: T) {
+        return this.details.has(this.getRowKey(row));
+    }
+    /**
+     * Expands or collapses the detail panel of a row
+     * @param row - The row
+     * @param expanded - Whether to expand it, toggles when omitted
+     */
+    public toggleRowExpanded(row: T, expanded = !this.isRowExpanded(row)) {
+        if(!this.detailRenderer || expanded === this.isRowExpanded(row)) return;
+        const details = new Map(this.details);
+        const collapsed: T[] = [];
+        if(expanded) {
+            if(this.singleExpand) {
+                collapsed.push(...this.rows.filter(r => details.has(this.getRowKey(r))));
+                details.clear();
+            }
+            details.set(this.getRowKey(row), this.loadDetail(row));
+        } else {
+            details.delete(this.getRowKey(row));
+            collapsed.push(row);
+        }
+        this.details = details;
+        collapsed.forEach(r => emit(this, 'row-collapse', {row: r}));
+        if(expanded) emit(this, 'row-expand', {row});
+    }
+    public expandRow(row: T) {
+        this.toggleRowExpanded(row, true);
+    }
+    public collapseRow(row: T) {
+        this.toggleRowExpanded(row, false);
+    }
+    public collapseAllRows() {
+        this.rows.filter(row => this.isRowExpanded(row)).forEach(row => this.collapseRow(row));
+    }
+    @watch('detailRenderer')
+    handleDetailRendererChange() {
+        // The panels were made by the previous renderer
+        if(this.details.size) this.details = new Map();
+    }
+    private loadDetail(row: T): RowDetail {
+        const content = this.detailRenderer?.(row);
+        if(!(content instanceof Promise)) return {content, loading: false};
+        const detail: RowDetail = {loading: true};
+        content.then(value => detail.content = value, error => detail.error = error).finally(() => {
+            detail.loading = false;
+            this.requestUpdate();
+        });
+        return detail;
+    }
+    private renderRowToggle(row: T) {
+        const expanded = this.isRowExpanded(row);
+        return html`
+            <button class="row-toggle" tabindex="-1" aria-expanded=${String(expanded)}
+                    aria-label=${expanded ? 'Hide details' : 'Show details'}
+                    @click=${(e: MouseEvent) => {
+                        e.stopPropagation();
+                        this.toggleRowExpanded(row);
+                    }}>${expanded ? '▾' : '▸'}</button>
+        `
+    }
+    private renderDetailRow(detail: RowDetail, displayIndex: number) {
+        let content: unknown;
+        if(detail.loading) {
+            content = html`<div class="status" role="status">Loading…</div>`;
+        } else if(detail.error) {
+            const message = detail.error instanceof Error ? detail.error.message : String(detail.error);
+            content = html`<div class="status error" role="alert">Failed to load details: ${message}</div>`;
+        } else {
+            content = this.renderContent(detail.content);
+        }
+        return html`
+            <data-grid-row class="detail-row" aria-rowindex=${displayIndex + this.headerRowCount + 1}>
+                <data-grid-cell class="detail-cell">${content}</data-grid-cell>
+            </data-grid-row>
+        `
+    }
+    //#endregion Row Details
+    //#region Export
+    /**
+     * Exports the rows as they are shown: filtered, sorted and grouped, with the visible columns in their current order
+     * @param format - The file format
+     * @param options - Which rows to export and how to write them
+     * @returns The exported file
+     */
+    public exportData(format: ExportFormat, options: ExportOptions = {}): Blob {
+        const columns = this.columns.filter(c => !c.hidden);
+        const groupBy = this.groupBy.filter(field => this.columns.some(c => c.field === field));
+        const flatten = (groups: RowGroup<T>[]): T[] => groups.flatMap(g => g.children ? flatten(g.children) : g.rows);
+        let rows = this.computeViewRows();
+        if(groupBy.length) rows = flatten(groupRows(rows, groupBy, this.columns, this.sort));
+        if(options.selectedOnly) rows = rows.filter(row => this.isRowSelected(row));
+        const table = getExportTable(rows, columns);
+        const headers = columns.map(c => c.label);
+        if(options.includeHeaders !== false) table.unshift(headers);
+        let blob: Blob;
+        switch(format) {
+            case 'json':
+                // Keyed by field, which unlike the label is unique among the columns
+                blob = new Blob([JSON.stringify(getExportTable(rows, columns)
+                    .map(values => Object.fromEntries(values.map((value, index) => [columns[index].field, value]))), null, 2)],
+                    {type: 'application/json'});
+                break;
+            case 'xlsx':
+                blob = new Blob([toXlsx(table).buffer as ArrayBuffer], {type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'});
+                break;
+            case 'tsv':
+                blob = new Blob([toDelimited(table, options.delimiter ?? '\t')], {type: 'text/tab-separated-values'});
+                break;
+            default:
+                blob = new Blob([toDelimited(table, options.delimiter ?? ',')], {type: 'text/csv'});
+        }
+        if(options.fileName) this.downloadBlob(blob, options.fileName);
+        return blob;
+    }
+    private downloadBlob(blob: Blob, fileName: string) {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url));
+    }
+    //#endregion Export
+    //#region State Persistence
+    /**
+     * A restored state waiting for the columns it applies to
+     */
+    private pendingState?: GridState;
+    private stateLoaded = false;
+    private saveStateTimeout?: ReturnType<typeof setTimeout>;
+    /**
+     * Returns a JSON-serializable snapshot of the column order, widths, visibility, sort and filters
+     */
+    public getState(): GridState {
+        return {
+            version: STATE_VERSION,
+            columnOrder: this.columns.map(c => c.field),
+            widths: Object.fromEntries(this.columns.map((c, index) => [c.field, this.gridTemplateColumns[index]])
+                .filter(([, width]) => width !== undefined)),
+            hidden: this.columns.filter(c => c.hidden).map(c => c.field),
+            pinned: Object.fromEntries(this.columns.filter(c => c.pinned).map(c => [c.field, c.pinned as PinnedSide])),
+            groupBy: [...this.groupBy],
+            sort: this.sort.map(s => ({...s})),
+            filter: JSON.parse(JSON.stringify(this.filter))
+        };
+    }
+    /**
+     * Applies a snapshot returned by `getState()`.
+     * Fields that no longer match a column are ignored, columns missing from the snapshot keep their place at the end.
+     * @returns false if the snapshot was made by an incompatible version
+     */
+    public setState(state: GridState): boolean {
+        if(!state || state.version !== STATE_VERSION) {
+            console.warn(`DataGrid: ignoring state with unsupported version ${state?.version}`);
+            return false;
+        }
+        const rank = (field: string) => {
+            const index = state.columnOrder.indexOf(field);
+            return index === -1 ? state.columnOrder.length : index;
+        };
+        const columns = [...this.columns]
+            .sort((a, b) => rank(a.field) - rank(b.field))
+            .map(c => {
+                const hidden = state.hidden.includes(c.field);
+                const pinned = state.pinned ? state.pinned[c.field] : c.pinned;
+                return !!c.hidden === hidden && c.pinned === pinned ? c : {...c, hidden, pinned};
+            });
+        // Restored widths were chosen by the user, so they stay as they are
+        Object.keys(state.widths).forEach(field => this.flexibleColumns.delete(field));
+        // The widths are set in the current order, they follow their columns into the new one on the next update
+        this.gridTemplateColumns = this.columns.map((c, index) => state.widths[c.field] ?? this.gridTemplateColumns[index] ?? 100 / columns.length - 1);
+        if(this.controlled) {
+            emit(this, 'columns-change', {columns});
+        } else {
+            this.columns = columns;
+        }
+        this.sort = state.sort.filter(s => columns.some(c => c.field === s.field));
+        this.filter = Object.fromEntries(Object.entries(state.filter).filter(([field]) => columns.some(c => c.field === field)));
+        if(state.groupBy) this.groupBy = state.groupBy.filter(field => columns.some(c => c.field === field));
+        return true;
+    }
+    private get stateStorage(): GridStateStorage | undefined {
+        return this.storage ?? (typeof localStorage !== 'undefined' ? localStorage : undefined);
+    }
+    @watch('persistKey')
+    async handlePersistKeyChange() {
+        this.stateLoaded = false;
+        const key = this.persistKey;
+        if(!key || !this.stateStorage) return;
+        try {
+            const saved = await this.stateStorage.getItem(key);
+            if(key !== this.persistKey) return;
+            this.pendingState = saved ? JSON.parse(saved) : undefined;
+        } catch (e) {
+            console.warn('DataGrid: unable to restore state', e);
+        }
+        this.stateLoaded = true;
+        this.applyPendingState();
+    }
+    private applyPendingState() {
+        if(!this.pendingState || !this.columns.length) return;
+        const state = this.pendingState;
+        this.pendingState = undefined;
+        this.setState(state);
+    }
+    private saveState() {
+        // Saving before the stored state is restored would overwrite it with the defaults
+        if(!this.persistKey || !this.stateLoaded || this.pendingState || !this.columns.length) return;
+        clearTimeout(this.saveStateTimeout);
+        this.saveStateTimeout = setTimeout(async () => {
+            if(!this.persistKey || !this.stateStorage) return;
+            try {
+                await this.stateStorage.setItem(this.persistKey, JSON.stringify(this.getState()));
+            } catch (e) {
+                console.warn('DataGrid: unable to save state', e);
+            }
+        }, 250);
+    }
+    //#endregion State Persistence
+    //#region Selection
+    /**
+     * The ids of the selected rows, as returned by `getRowId`
+     */
+    @state() private selection = new Set<unknown>();
+    /**
+     * The row a shift-click range starts from
+     */
+    private selectionAnchor?: unknown;
+    /**
+     * The selected rows, in the order of `rows`
+     */
+    public get selectedRows(): T[] {
+        if(!this.selection.size) return [];
+        return this.rows.filter(row => this.selection.has(this.getRowKey(row)));
+    }
+    public set selectedRows(rows: T[]) {
+        const ids = rows.map(row => this.getRowKey(row));
+        this.selection = new Set(this.selectionMode === 'single' ? ids.slice(0, 1) : this.selectionMode === 'multi' ? ids : []);
+    }
+    private get hasSelectionColumn() {
+        return this.checkboxSelection && this.selectionMode !== 'none';
+    }
+    public isRowSelected(row: T) {
+        return this.selection.has(this.getRowKey(row));
+    }
+    /**
+     * Updates the selection the way a click on a row would
+     * @param row - The row that was clicked
+     * @param options.toggle - Add or remove the row instead of replacing the selection, as with ctrl-click
+     * @param options.range - Select every row between the last clicked row and this one, as with shift-click
+     */
+    public selectRow(row: T, {toggle = false, range = false} = {}) {
+        if(this.selectionMode === 'none') return;
+        const id = this.getRowKey(row);
+        let selection: Set<unknown>;
+        if(this.selectionMode === 'single') {
+            selection = new Set(toggle && this.selection.has(id) ? [] : [id]);
+        } else if(range && this.selectionAnchor !== undefined) {
+            const ids = this.viewRows.map(r => this.getRowKey(r));
+            const from = ids.indexOf(this.selectionAnchor);
+            const to = ids.indexOf(id);
+            const between = from === -1 ? [id] : ids.slice(Math.min(from, to), Math.max(from, to) + 1);
+            selection = new Set(toggle ? [...this.selection, ...between] : between);
+        } else if(toggle) {
+            selection = new Set(this.selection);
+            if(!selection.delete(id)) selection.add(id);
+        } else {
+            selection = new Set([id]);
+        }
+        if(!range) this.selectionAnchor = id;
+        this.setSelection(selection);
+    }
+    /**
+     * Selects or deselects every row that passes the current filters
+     */
+    public selectAll(selected = true) {
+        if(this.selectionMode !== 'multi') return;
+        const ids = this.viewRows.map(row => this.getRowKey(row));
+        const selection = new Set(this.selection);
+        ids.forEach(id => selected ? selection.add(id) : selection.delete(id));
+        this.setSelection(selection);
+    }
+    public clearSelection() {
+        this.setSelection(new Set());
+    }
+    private setSelection(selection: Set<unknown>) {
+        if(selection.size === this.selection.size && [...selection].every(id => this.selection.has(id))) return;
+        this.selection = selection;
+        emit(this, 'selection-change', {selectedRows: this.selectedRows});
+    }
+    @watch('selectionMode')
+    handleSelectionModeChange() {
+        if(this.selectionMode === 'none' && this.selection.size) this.clearSelection();
+        if(this.selectionMode === 'single' && this.selection.size > 1) this.setSelection(new Set([...this.selection].slice(0, 1)));
+    }
+    private onRowClick(event: MouseEvent, row: T) {
+        // Clicks inside an editor belong to the editor
+        if(event.composedPath().some(el => el instanceof HTMLElement && el.hasAttribute('data-editor'))) return;
+        this.selectRow(row, {toggle: event.ctrlKey || event.metaKey, range: event.shiftKey});
+    }
+    private renderSelectAll() {
+        const selected = this.viewRows.filter(row => this.isRowSelected(row)).length;
+        return html`
+            <data-grid-cell class="selection-cell" role="columnheader" aria-colindex="1" tabindex=${this.getTabIndex(-1, 0)} data-pinned="left">
+                ${this.selectionMode === 'multi' ? html`
+                    <input type="checkbox" aria-label="Select all rows"
+                           .checked=${selected > 0 && selected === this.viewRows.length}
+                           .indeterminate=${selected > 0 && selected < this.viewRows.length}
+                           @change=${(e: Event) => this.selectAll((e.target as HTMLInputElement).checked)}>
+                ` : nothing}
+            </data-grid-cell>
+        `
+    }
+    private renderSelectionCell(row: T, index: number) {
+        return html`
+            <data-grid-cell class="selection-cell" aria-colindex="1" tabindex=${this.getTabIndex(index, 0)} data-pinned="left">
+                <input type="checkbox" aria-label="Select row" .checked=${this.isRowSelected(row)}
+                       @click=${(e: MouseEvent) => {
+                           e.stopPropagation();
+                           this.selectRow(row, {toggle: true, range: e.shiftKey});
+                       }}>
+            </data-grid-cell>
+        `
+    }
+    //#endregion Selection
+    //#region Keyboard Navigation
+    /**
+     * The cell that takes part in the tab order, row -1 is the header
+     */
+    @state() private activeCell = {row: -1, col: 0};
+    private get headerRowCount() {
+        return this.filterable ? 2 : 1;
+    }
+    private get navColumnCount() {
+        return this.columns.filter(c => !c.hidden).length + (this.hasSelectionColumn ? 1 : 0);
+    }
+    private get rowsPerScreen() {
+        const viewport = this.getBodyViewport();
+        const rowHeight = this.rowHeight || this.estimatedRowHeight;
+        return viewport && viewport.height ? Math.max(1, Math.floor(viewport.height / rowHeight)) : 10;
+    }
+    private clampActiveCell() {
+        const row = Math.min(this.activeCell.row, this.viewRows.length - 1);
+        const col = Math.max(0, Math.min(this.activeCell.col, this.navColumnCount - 1));
+        if(row !== this.activeCell.row || col !== this.activeCell.col) this.activeCell = {row, col};
+    }
+    private getTabIndex(row: number, col: number) {
+        return this.activeCell.row === row && this.activeCell.col === col ? 0 : -1;
+    }
+    private get headerRowElement() {
+        return this.querySelector(':scope > .grid > .head > data-grid-row:first-child') as HTMLElement | null;
+    }
+    private getCellElement(row: number, col: number) {
+        const rowElement = row === -1
+            ? this.headerRowElement
+            : this.bodyElement?.querySelector(`:scope > data-grid-row[data-index="${row}"]`);
+        return (rowElement?.children[col] as HTMLElement | undefined) ?? null;
+    }
+    /**
+     * Moves the roving tabindex to a cell and focuses it, scrolling it into view
+     * @param row - The index of the row in the rendered view, -1 for the header
+     * @param col - The visual index of the column, counting the checkbox column
+     */
+    public async focusCell(row: number, col: number) {
+        row = Math.max(-1, Math.min(row, this.viewRows.length - 1));
+        col = Math.max(0, Math.min(col, this.navColumnCount - 1));
+        this.activeCell = {row, col};
+        const scroller = this.scrollElement;
+        const viewport = this.getBodyViewport();
+        if(this.virtual && scroller && viewport && row >= 0) {
+            const height = this.virtualRowHeight;
+            const index = this.rowDisplayIndex[row];
+            if(index * height < viewport.top) {
+                scroller.scrollTop = index * height;
+            } else if((index + 1) * height > viewport.top + viewport.height) {
+                scroller.scrollTop = (index + 1) * height - viewport.height;
+            }
+            this.updateVirtualRange();
+        }
+        await this.updateComplete;
+        this.getCellElement(row, col)?.focus();
+    }
+    /**
+     * Finds the header or body cell an element belongs to, ignoring those of group rows and nested grids
+     */
+    private getCellPosition(element: Element): CellPosition | undefined {
+        const cell = element.closest('data-grid-cell, data-grid-column');
+        const rowElement = cell?.parentElement;
+        if(!cell || !rowElement) return undefined;
+        let row: number;
+        if(rowElement === this.headerRowElement) {
+            row = -1;
+        } else if(rowElement.parentElement === this.bodyElement && rowElement.dataset.index !== undefined) {
+            row = Number(rowElement.dataset.index);
+        } else {
+            return undefined;
+        }
+        return {row, col: [...rowElement.children].indexOf(cell)};
+    }
+    private onGridFocusIn = (event: FocusEvent) => {
+        const position = this.getCellPosition(event.target as HTMLElement);
+        if(!position) return;
+        const {row, col} = position;
+        if(row !== this.activeCell.row || col !== this.activeCell.col) this.activeCell = {row, col};
+        // Moving focus without extending the range starts a new one
+        const focus = this.cellRange?.focus;
+        if(this.isRangeCell(position) && !this.rangeDrag && (focus?.row !== row || focus?.col !== col)) {
+            this.cellRange = {anchor: position, focus: position};
+        }
+    }
+    /**
+     * Ctrl+Z undoes, Ctrl+Y and Ctrl+Shift+Z redo, wherever the focus is in the grid but in text fields
+     * @returns whether the key was handled
+     */
+    private onHistoryKeyDown(event: KeyboardEvent) {
+        const key = event.key.toLowerCase();
+        if(!(event.ctrlKey || event.metaKey) || (key !== 'z' && key !== 'y')) return false;
+        const origin = event.composedPath()[0];
+        const textField = origin instanceof HTMLTextAreaElement || origin instanceof HTMLSelectElement
+            || (origin instanceof HTMLInputElement && origin.type !== 'checkbox' && origin.type !== 'radio')
+            || (origin instanceof HTMLElement && origin.isContentEditable);
+        // Nested grids keep their own history
+        if(textField || (event.target as Element).closest('data-grid') !== this) return false;
+        if(!(key === 'y' || event.shiftKey ? this.redo() : this.undo())) return false;
+        event.preventDefault();
+        return true;
+    }
+    private onGridKeyDown = (event: KeyboardEvent) => {
+        if(event.defaultPrevented || this.onHistoryKeyDown(event)) return;
+        const {row, col} = this.activeCell;
+        // Keys pressed inside editors, filters, nested grids and the shadow roots of headers, such as on their menu, are theirs to handle
+        if(event.composedPath()[0] !== this.getCellElement(row, col)) return;
+        const ctrl = event.ctrlKey || event.metaKey;
+        const header = event.target instanceof DataGridColumn ? event.target : undefined;
+        const column = header ? this.columns[header.index] : undefined;
+        const offset = this.hasSelectionColumn ? 1 : 0;
+        const visible = this.columns.filter(c => !c.hidden);
+        switch(event.key) {
+            case 'ArrowLeft':
+            case 'ArrowRight': {
+                const direction = event.key === 'ArrowLeft' ? -1 : 1;
+                if(header && column && event.altKey) {
+                    // Resize by 10px per key press
+                    if(!this.isColumnResizable(column)) return;
+                    const step = pixelsToPercentOfWidth(10, this.gridWidth);
+                    this.resizeColumn(header.index, this.gridTemplateColumns[header.index] + step * direction);
+                } else if(header && column && ctrl && event.shiftKey) {
+                    const neighbour = visible[col - offset + direction];
+                    if(!this.reorderable || !neighbour) return;
+                    this.moveColumn(header.index, this.columns.indexOf(neighbour));
+                    this.focusCell(row, col + direction);
+                } else if(row >= 0 && event.shiftKey && this.cellSelection) {
+                    this.extendCellRange(0, direction);
+                } else {
+                    this.focusCell(row, col + direction);
+                }
+                break;
+            }
+            case 'ArrowUp':
+            case 'ArrowDown': {
+                const direction = event.key === 'ArrowUp' ? -1 : 1;
+                if(row >= 0 && ctrl && event.shiftKey) {
+                    if(!this.reorderable || row + direction < 0 || row + direction >= this.viewRows.length) return;
+                    this.moveRow(row, row + direction);
+                } else if(row >= 0 && event.shiftKey && this.cellSelection) {
+                    this.extendCellRange(direction, 0);
+                    break;
+                } else if(row >= 0 && event.altKey) {
+                    // Alt+Down expands the row's details, Alt+Up collapses them
+                    if(!this.detailRenderer) return;
+                    this.toggleRowExpanded(this.viewRows[row], direction === 1);
+                    break;
+                }
+                this.focusCell(row + direction, col);
+                break;
+            }
+            case 'Home':
+                this.focusCell(ctrl ? -1 : row, 0);
+                break;
+            case 'End':
+                this.focusCell(ctrl ? this.viewRows.length - 1 : row, this.navColumnCount - 1);
+                break;
+            case 'PageUp':
+            case 'PageDown': {
+                const direction = event.key === 'PageUp' ? -1 : 1;
+                if(event.altKey) {
+                    // Alt+PageUp and Alt+PageDown turn the page, keeping the focus on the same cell position
+                    if(!this.hasPager) return;
+                    this.setPage(this.page + direction);
+                    this.updateComplete.then(() => this.focusCell(row, col));
+                } else if(direction === -1) {
+                    this.focusCell(row === -1 ? row : Math.max(0, row - this.rowsPerScreen), col);
+                } else {
+                    this.focusCell(row + this.rowsPerScreen, col);
+                }
+                break;
+            }
+            case 'Enter':
+            case ' ':
+                if(header) {
+                    this.toggleSort(header.field, event.shiftKey);
+                } else if(row >= 0 && event.key === ' ' && this.selectionMode !== 'none') {
+                    this.selectRow(this.viewRows[row], {toggle: ctrl || this.selectionMode === 'multi', range: event.shiftKey});
+                } else {
+                    return;
+                }
+                break;
+            default:
+                return;
+        }
+        event.preventDefault();
+    }
+    //#endregion Keyboard Navigation
+    //#region Cell Range Selection
+    /**
+     * The selected block of cells, in the same coordinates as the focused cell
+     */
+    @state() public cellRange?: CellRange;
+    /**
+     * The cell the fill handle is being dragged to
+     */
+    @state() private fillTarget?: CellPosition;
+    private rangeDrag?: 'select' | 'fill';
+    /**
+     * Selects a block of cells
+     * @param anchor - The cell the range starts at
+     * @param focus - The opposite corner, defaults to the anchor
+     */
+    public selectCellRange(anchor: CellPosition, focus: CellPosition = anchor) {
+        if(!this.cellSelection || !this.isRangeCell(anchor) || !this.isRangeCell(focus)) return;
+        this.cellRange = {anchor, focus};
+    }
+    public clearCellRange() {
+        this.cellRange = undefined;
+    }
+    /**
+     * Whether a position is a data cell of the body, rather than the header or the checkbox column
+     */
+    private isRangeCell({row, col}: CellPosition) {
+        return this.cellSelection && row >= 0 && row < this.viewRows.length
+            && col >= (this.hasSelectionColumn ? 1 : 0) && col < this.navColumnCount;
+    }
+    private clampCellRange() {
+        if(this.cellRange && !(this.isRangeCell(this.cellRange.anchor) && this.isRangeCell(this.cellRange.focus))) {
+            this.cellRange = undefined;
+        }
+    }
+    private getRangeBounds(range = this.cellRange) {
+        if(!range) return undefined;
+        return {
+            top: Math.min(range.anchor.row, range.focus.row),
+            bottom: Math.max(range.anchor.row, range.focus.row),
+            left: Math.min(range.anchor.col, range.focus.col),
+            right: Math.max(range.anchor.col, range.focus.col)
+        };
+    }
+    /**
+     * The cells the fill handle will write to, below, above or beside the range
+     */
+    private getFillBounds() {
+        const bounds = this.getRangeBounds();
+        const target = this.fillTarget;
+        if(!bounds || !target) return undefined;
+        if(target.row > bounds.bottom) return {...bounds, top: bounds.bottom + 1, bottom: target.row};
+        if(target.row < bounds.top) return {...bounds, top: target.row, bottom: bounds.top - 1};
+        if(target.col > bounds.right) return {...bounds, left: bounds.right + 1, right: target.col};
+        if(target.col < bounds.left) return {...bounds, left: target.col, right: bounds.left - 1};
+        return undefined;
+    }
+    /**
+     * Moves the focus corner of the range, as shift-arrows do
+     */
+    private extendCellRange(rows: number, cols: number) {
+        const range = this.cellRange ?? {anchor: this.activeCell, focus: this.activeCell};
+        const focus = {
+            row: Math.max(0, Math.min(range.focus.row + rows, this.viewRows.length - 1)),
+            col: Math.max(this.hasSelectionColumn ? 1 : 0, Math.min(range.focus.col + cols, this.navColumnCount - 1))
+        };
+        if(!this.isRangeCell(range.anchor) || !this.isRangeCell(focus)) return;
+        this.cellRange = {anchor: range.anchor, focus};
+        this.focusCell(focus.row, focus.col);
+    }
+    private getRangeCell(row: number, col: number) {
+        const column = this.columns.filter(c => !c.hidden)[col - (this.hasSelectionColumn ? 1 : 0)];
+        const data = this.viewRows[row];
+        return column && data ? {row: data, column} : undefined;
+    }
+    /**
+     * Writes values to cells, skipping those that can't be edited or whose column's `validate` rejects the value.
+     * Every change is announced in a single `cells-change` event, which can be prevented to discard them all.
+     * @returns whether any value was written
+     */
+    private setCellValues(values: {row: T, column: Column<T>, value: unknown}[], source: CellsChangeDetail['source']) {
+        const changes: CellEditDetail<T>[] = values
+            .filter(({row, column, value}) => this.isColumnEditable(column) && getCellValue(row, column) !== value && !column.validate?.(value, row))
+            .map(({row, column, value}) => ({row, field: column.field, oldValue: getCellValue(row, column), newValue: value}));
+        if(!changes.length) return false;
+        const detail: CellsChangeDetail<T> = {changes, source};
+        if(!emit(this, 'cells-change', detail, {cancelable: true})) return false;
+        this.applyCellChanges(changes);
+        return true;
+    }
+    /**
+     * Pastes tab-separated text at the top-left corner of the range.
+     * A single value fills the whole range, values are converted to the types of the columns they land in.
+     * @returns whether any value was written
+     */
+    public pasteText(text: string) {
+        const bounds = this.getRangeBounds();
+        const table = parseDelimited(text);
+        if(!bounds || !table.length) return false;
+        const single = table.length === 1 && table[0].length === 1;
+        const height = single ? bounds.bottom - bounds.top + 1 : table.length;
+        const width = single ? bounds.right - bounds.left + 1 : Math.max(...table.map(values => values.length));
+        const values: {row: T, column: Column<T>, value: unknown}[] = [];
+        for(let r = 0; r < height; r++) {
+            for(let c = 0; c < width; c++) {
+                const cell = this.getRangeCell(bounds.top + r, bounds.left + c);
+                const input = single ? table[0][0] : table[r][c];
+                if(!cell || input === undefined) continue;
+                const parsed = parseCellValue(input, cell.column, cell.row);
+                if(parsed) values.push({...cell, value: parsed.value});
+            }
+        }
+        const last = {
+            row: Math.min(bounds.top + height, this.viewRows.length) - 1,
+            col: Math.min(bounds.left + width, this.navColumnCount) - 1
+        };
+        this.cellRange = {anchor: {row: bounds.top, col: bounds.left}, focus: last};
+        return this.setCellValues(values, 'paste');
+    }
+    /**
+     * Repeats the values of the range into the cells the fill handle was dragged over
+     */
+    private fillRange() {
+        const bounds = this.getRangeBounds();
+        const fill = this.getFillBounds();
+        if(!bounds || !fill) return;
+        const height = bounds.bottom - bounds.top + 1;
+        const width = bounds.right - bounds.left + 1;
+        const vertical = fill.left === bounds.left && fill.right === bounds.right;
+        const values: {row: T, column: Column<T>, value: unknown}[] = [];
+        for(let r = fill.top; r <= fill.bottom; r++) {
+            for(let c = fill.left; c <= fill.right; c++) {
+                const sourceRow = vertical ? bounds.top + ((r - bounds.top) % height + height) % height : r;
+                const sourceCol = vertical ? c : bounds.left + ((c - bounds.left) % width + width) % width;
+                const source = this.getRangeCell(sourceRow, sourceCol);
+                const target = this.getRangeCell(r, c);
+                if(!source || !target) continue;
+                const value = getCellValue(source.row, source.column);
+                if(source.column === target.column) {
+                    values.push({...target, value});
+                } else {
+                    // Values copied across columns are converted as if they were pasted
+                    const parsed = parseCellValue(formatCellValue(source.row, source.column, value), target.column, target.row);
+                    if(parsed) values.push({...target, value: parsed.value});
+                }
+            }
+        }
+        this.cellRange = {
+            anchor: {row: Math.min(bounds.top, fill.top), col: Math.min(bounds.left, fill.left)},
+            focus: {row: Math.max(bounds.bottom, fill.bottom), col: Math.max(bounds.right, fill.right)}
+        };
+        this.setCellValues(values, 'fill');
+    }
+    /**
+     * The values of the range, as they are exported
+     */
+    private getRangeTable() {
+        const bounds = this.getRangeBounds();
+        if(!bounds) return [];
+        const offset = this.hasSelectionColumn ? 1 : 0;
+        const columns = this.columns.filter(c => !c.hidden).slice(bounds.left - offset, bounds.right - offset + 1);
+        return getExportTable(this.viewRows.slice(bounds.top, bounds.bottom + 1), columns);
+    }
+    /**
+     * Whether a clipboard event belongs to an input, such as an editor or a filter, rather than the range
+     */
+    private isInputEvent(event: Event) {
+        return event.composedPath().some(el => el instanceof HTMLElement
+            && (el.matches('input, textarea, select') || el.isContentEditable));
+    }
+    /**
+     * Whether a clipboard event comes from a cell of this grid, rather than an input or a nested grid
+     */
+    private isOwnCellEvent(event: ClipboardEvent) {
+        return !event.defaultPrevented && !this.isInputEvent(event) && !!this.getCellPosition(event.target as HTMLElement);
+    }
+    private onGridCopy = (event: ClipboardEvent) => {
+        if(!this.cellSelection || !this.cellRange || !event.clipboardData || !this.isOwnCellEvent(event)) return;
+        const table = this.getRangeTable();
+        event.clipboardData.setData('text/plain', toDelimited(table, '\t'));
+        event.clipboardData.setData('text/html', toHtmlTable(table));
+        event.preventDefault();
+    }
+    private onGridPaste = (event: ClipboardEvent) => {
+        if(!this.cellSelection || !this.cellRange || !event.clipboardData || !this.isOwnCellEvent(event)) return;
+        this.pasteText(event.clipboardData.getData('text/plain'));
+        event.preventDefault();
+    }
+    private onGridPointerDown = (event: PointerEvent) => {
+        if(!this.cellSelection || event.button !== 0 || this.isInputEvent(event)) return;
+        const position = this.getCellPosition(event.target as HTMLElement);
+        if(!position || !this.isRangeCell(position)) return;
+        if((event.target as HTMLElement).closest('.fill-handle')) {
+            this.rangeDrag = 'fill';
+            this.fillTarget = undefined;
+            // Keep the focus, and so the range, where it is
+            event.preventDefault();
+        } else {
+            this.rangeDrag = 'select';
+            const anchor = event.shiftKey && this.cellRange ? this.cellRange.anchor : position;
+            this.cellRange = {anchor, focus: position};
+        }
+        document.addEventListener('pointerup', this.onDocumentPointerUp);
+    }
+    private onGridPointerOver = (event: PointerEvent) => {
+        if(!this.rangeDrag || !this.cellRange) return;
+        const position = this.getCellPosition(event.target as HTMLElement);
+        if(!position || !this.isRangeCell(position)) return;
+        if(this.rangeDrag === 'fill') {
+            this.fillTarget = position;
+        } else if(position.row !== this.cellRange.focus.row || position.col !== this.cellRange.focus.col) {
+            this.cellRange = {anchor: this.cellRange.anchor, focus: position};
+        }
+    }
+    private onDocumentPointerUp = () => {
+        document.removeEventListener('pointerup', this.onDocumentPointerUp);
+        if(this.rangeDrag === 'fill') this.fillRange();
+        this.rangeDrag = undefined;
+        this.fillTarget = undefined;
+    }
+    //#endregion Cell Range Selection
+    //#region History
+    private history = new CommandHistory(this.historyDepth);
+    /**
+     * Whether there is a change to undo
+     */
+    @state() public canUndo = false;
+    /**
+     * Whether there is an undone change to redo
+     */
+    @state() public canRedo = false;
+    @watch('historyDepth')
+    handleHistoryDepthChange() {
+        this.history.depth = this.historyDepth;
+        this.history.trim();
+        this.updateHistoryState();
+    }
+    /**
+     * Reverts the last change
+     * @returns whether there was a change to undo
+     */
+    public undo() {
+        const undone = this.history.undo();
+        this.updateHistoryState();
+        return undone;
+    }
+    /**
+     * Applies the last undone change again
+     * @returns whether there was a change to redo
+     */
+    public redo() {
+        const redone = this.history.redo();
+        this.updateHistoryState();
+        return redone;
+    }
+    public clearHistory() {
+        this.history.clear();
+        this.updateHistoryState();
+    }
+    /**
+     * Runs a callback, making every change it makes to the grid undo as a single step
+     */
+    public batch<R>(callback: () => R): R {
+        return this.history.batch(callback);
+    }
+    private recordHistory(command: Command, mergeKey?: string) {
+        this.history.record(command, mergeKey);
+        this.updateHistoryState();
+    }
+    /**
+     * Writes new values to rows, or proposes them in a `row-change` event per row when controlled
+     */
+    private applyCellChanges(changes: CellEditDetail<T>[]) {
+        if(this.controlled) {
+            const patches = new Map<T, RowChangeDetail['patch']>();
+            changes.forEach(({row, field, newValue}) => patches.set(row, {...patches.get(row), [field]: newValue}));
+            patches.forEach((patch, row) => {
+                const newRow = Object.entries(patch).reduce((copy, [field, value]) => withFieldValue(copy, field, value), row);
+                const detail: RowChangeDetail<T> = {rowId: this.getRowKey(row), row, patch, newRow};
+                emit(this, 'row-change', detail);
+            });
+            return;
+        }
+        const apply = (value: 'oldValue' | 'newValue') => {
+            changes.forEach(change => setFieldValue(change.row, change.field, change[value]));
+            this.requestUpdate('rows');
+        };
+        apply('newValue');
+        this.recordHistory({undo: () => apply('oldValue'), redo: () => apply('newValue')});
+    }
+    private updateHistoryState() {
+        const {canUndo, canRedo} = this.history;
+        if(canUndo === this.canUndo && canRedo === this.canRedo) return;
+        this.canUndo = canUndo;
+        this.canRedo = canRedo;
+        emit(this, 'history-change', {canUndo, canRedo});
+    }
+    //#endregion History
+    //#region Cell Editing
+    /**
+     * Whether the given column can be edited, a computed column only when it opts in and parses what it writes to its field
+     */
+    public isColumnEditable(column: Column<T>) {
+        if(column.valueGetter && !(column.editable === true && column.valueParser)) return false;
+        return !!this.editable && column.editable !== false;
+    }
+    /**
+     * Opens the editor of a cell, unless a `cell-edit-start` listener prevents it
+     * @returns whether the editor was opened
+     */
+    public startEdit(row: T, field: string): boolean {
+        const column = this.columns.find(c => c.field === field);
+        if(!column || !this.isColumnEditable(column)) return false;
+        if(this.editing) this.cancelEdit();
+        const value = getCellValue(row, column);
+        const detail: CellEditDetail<T> = {row, field, oldValue: value, newValue: value};
+        if(!emit(this, 'cell-edit-start', detail, {cancelable: true})) return false;
+        this.editing = {row, field};
+        this.updateComplete.then(() => this.editorElement?.focus());
+        return true;
+    }
+    /**
+     * Validates and commits a value to the cell being edited.
+     * The editor stays open when the column's `validate` rejects the value.
+     * @returns whether the value was committed
+     */
+    public commitEdit(value: any): boolean {
+        if(!this.editing) return false;
+        const {row, field} = this.editing;
+        const column = this.columns.find(c => c.field === field);
+        const error = column?.validate?.(value, row);
+        if(error) {
+            this.editing = {row, field, error};
+            return false;
+        }
+        const detail: CellEditDetail<T> = {row, field, oldValue: this.getFieldCellValue(row, field), newValue: value};
+        if(!emit(this, 'cell-edit-commit', detail, {cancelable: true})) return false;
+        this.closeEdit();
+        this.applyCellChanges([detail]);
+        return true;
+    }
+    /**
+     * Closes the editor without committing, unless a `cell-edit-cancel` listener prevents it
+     */
+    public cancelEdit(): boolean {
+        if(!this.editing) return false;
+        const {row, field} = this.editing;
+        const value = this.getFieldCellValue(row, field);
+        const detail: CellEditDetail<T> = {row, field, oldValue: value, newValue: value};
+        if(!emit(this, 'cell-edit-cancel', detail, {cancelable: true})) return false;
+        this.closeEdit();
+        return true;
+    }
+    /**
+     * The open editor, leaving out those of grids nested in detail panels
+     */
+    private get editorElement() {
+        return this.bodyElement?.querySelector(':scope > data-grid-row > data-grid-cell[editing] [data-editor]') as HTMLElement | null;
+    }
+    /**
+     * The value of the cell of a row in the column with the given field
+     */
+    private getFieldCellValue(row: T, field: string) {
+        const column = this.columns.find(c => c.field === field);
+        return column ? getCellValue(row, column) : getFieldValue(row, field);
+    }
+    private closeEdit() {
+        // Return focus to the cell so keyboard users can keep going
+        const cell = this.editorElement?.closest('data-grid-cell') as HTMLElement | null;
+        const hadFocus = !!cell?.contains(document.activeElement);
+        this.editing = undefined;
+        if(hadFocus) this.updateComplete.then(() => cell?.focus());
+    }
+    private renderEditor(row: T, column: Column<T>) {
+        const context: EditorContext<T> = {
+            value: getCellValue(row, column),
+            row,
+            column,
+            error: this.editing?.error,
+            commit: (value: any) => this.commitEdit(value),
+            cancel: () => this.cancelEdit()
+        };
+        if(typeof column.editor === 'function') return this.renderContent(column.editor(context));
+        return renderEditor(column.editor ?? inferEditorType(context.value), context, this.rows);
+    }
+    //#endregion Cell Editing
+    //#region Cell Rendering
+    private renderCell(row: T, column: Column<T>, rowIndex: number) {
+        if(this.editing && this.editing.row === row && this.editing.field === column.field) {
+            return this.renderEditor(row, column);
+        }
+        const value = getCellValue(row, column);
+        if(column.render) {
+            return this.renderContent(column.render({value, row, rowIndex, column}));
+        } else {
+            return column.valueFormatter ? formatCellValue(row, column, value) : value;
+        }
+    }
+    /**
+     * Add Ability to render children from any framework
+     */
+    private renderContent(children: any) {
+        if(children instanceof Node || children?._$litType$) {
+            return children;
+        } else if (typeof children === 'string') {
+            return unsafeCSS(children);
+        } else if ((typeof children === 'function' || (typeof children === 'object' && children !== null)) && this.renderer) {
+            // Framework elements, such as React elements and Vue VNodes, are left to the renderer
+            return frameworkContent(children, this.renderer);
+        } else {
+            return nothing;
+        }
+    }
+    //#endregion Cell Rendering
+    //#region Conditional Styling
+    /**
+     * The lowest and highest numbers of the columns whose scales or bars have no bounds, by field
+     */
+    private valueRanges = new Map<string, ValueRange>();
+    private updateValueRanges(rows: T[]) {
+        this.valueRanges.clear();
+        this.columns.forEach(column => {
+            const unbounded = column.cellRules?.some(rule => rule.type !== 'threshold' && (rule.min === undefined || rule.max === undefined));
+            const range = unbounded ? getValueRange(column, rows) : undefined;
+            if(range) this.valueRanges.set(column.field, range);
+        });
+    }
+    /**
+     * The classes and style text of a cell, from `cellClass`, `cellStyle` and `cellRules` of its column
+     */
+    private getCellStyling(row: T, column: Column<T>, rowIndex: number) {
+        if(!column.cellClass && !column.cellStyle && !column.cellRules?.length) return {};
+        const value = getCellValue(row, column);
+        const params = {value, row, rowIndex, column};
+        const cellClass = typeof column.cellClass === 'function' ? column.cellClass(params) : column.cellClass;
+        const cellStyle = typeof column.cellStyle === 'function' ? column.cellStyle(params) : column.cellStyle;
+        const ruled = applyCellRules(column.cellRules ?? [], value, this.valueRanges.get(column.field));
+        return {
+            classes: [cellClass, ...ruled.classes].filter(Boolean).join(' ') || undefined,
+            style: toStyleText({...cellStyle, ...ruled.style}) || undefined
+        };
+    }
+    private getRowStyling(row: T, rowIndex: number) {
+        const style = this.rowStyle?.(row, rowIndex);
+        return {
+            classes: this.rowClass?.(row, rowIndex) || undefined,
+            style: style ? toStyleText(style) || undefined : undefined
+        };
+    }
+    //#endregion Conditional Styling
+    render() {
+        const start = this.virtual ? Math.min(this.virtualRange.start, this.displayItems.length) : 0;
+        const items = this.virtual ? this.displayItems.slice(start, this.virtualRange.end) : this.displayItems;
+        const columns = this.columns.map((column, index) => ({column, index})).filter(({column}) => !column.hidden);
+        const offset = this.hasSelectionColumn ? 1 : 0;
+        const headerRows = this.headerRowCount;
+        const pinned = this.getPinnedPositions(columns);
+        const range = this.cellSelection ? this.getRangeBounds() : undefined;
+        const fill = this.getFillBounds();
+        const within = (bounds: typeof range, row: number, col: number) => !!bounds
+            && row >= bounds.top && row <= bounds.bottom && col >= bounds.left && col <= bounds.right;
+        return html`
+            ${this.columnChooserOpen ? html`
+                <data-grid-column-chooser .columns=${this.columns} @close=${() => this.columnChooserOpen = false}></data-grid-column-chooser>
+            ` : nothing}
+            ${this.groupable ? this.renderGroupByZone() : nothing}
+            <div class="grid" role="grid" @scroll=${this.onScroll}
+                 aria-rowcount=${(this.dataSource ? this.totalCount : this.displayItems.length) + headerRows}
+                 aria-colcount=${columns.length + offset}
+                 aria-multiselectable=${this.selectionMode === 'multi' ? 'true' : nothing}
+                 @keydown=${this.onGridKeyDown}
+                 @focusin=${this.onGridFocusIn}
+                 @pointerdown=${this.onGridPointerDown}
+                 @pointerover=${this.onGridPointerOver}
+                 @copy=${this.onGridCopy}
+                 @paste=${this.onGridPaste}>
+                <div class="head" role="rowgroup">
+                    <data-grid-row aria-rowindex="1">
+                        ${this.hasSelectionColumn ? this.renderSelectAll() : nothing}
+                        ${columns.map(({column, index}, col) => html`
+                            <data-grid-column .index=${index} .field=${column.field} .sort=${this.getColumnSort(column)}
+                                              .description=${column.description}
+                                              aria-describedby=${column.description ? `${this.idPrefix}-description-${index}` : nothing}
+                                              aria-colindex=${col + offset + 1} tabindex=${this.getTabIndex(-1, col + offset)}
+                                              data-pinned=${pinned.get(index)?.side ?? nothing} ?data-pinned-edge=${pinned.get(index)?.edge}
+                                              style=${this.getPinnedStyle(pinned.get(index))}>
+                                <div slot="reorder-handle"></div>
+                                ${column?.label}
+                                ${column.description ? html`
+                                    <span slot="description" role="tooltip" id="${this.idPrefix}-description-${index}">${column.description}</span>
+                                ` : nothing}
+                            </data-grid-column>
+                        `)}
+                    </data-grid-row>
+                    ${this.filterable ? html`
+                        <data-grid-row class="filters" aria-rowindex="2">
+                            ${this.hasSelectionColumn ? html`<data-grid-cell class="selection-cell" aria-colindex="1" data-pinned="left"></data-grid-cell>` : nothing}
+                            ${columns.map(({column, index}, col) => html`
+                                <data-grid-cell aria-colindex=${col + offset + 1}
+                                                data-pinned=${pinned.get(index)?.side ?? nothing} ?data-pinned-edge=${pinned.get(index)?.edge}
+                                                style=${this.getPinnedStyle(pinned.get(index))}>
+                                    ${this.isColumnFilterable(column) ? html`
+                                        <data-grid-filter .column=${column} .filter=${this.filter[column.field]}></data-grid-filter>
+                                    ` : nothing}
+                                </data-grid-cell>
+                            `)}
+                        </data-grid-row>
+                    ` : nothing}
+                </div>
+                <div class="body" role="rowgroup">
+                ${this.virtual ? html`<div class="spacer" aria-hidden="true" style="height: ${start * this.virtualRowHeight}px"></div>` : nothing}
+                ${repeat(items, item => item.type === 'row' ? this.getRowKey(item.row) : item.type === 'detail' ? item.detail
+                    : `${item.type}:${item.type === 'group' ? item.group.key : item.key}`, (item, i) => {
+                    const displayIndex = start + i;
+                    if(item.type === 'group') return this.renderGroupRow(item.group, displayIndex);
+                    if(item.type === 'footer') return this.renderFooterRow(item, displayIndex, columns, pinned);
+                    if(item.type === 'detail') return this.renderDetailRow(item.detail, displayIndex);
+                    const {row, index: idx} = item;
+                    const selected = this.isRowSelected(row);
+                    const rowStyling = this.getRowStyling(row, idx);
+                    return html`
+                    <data-grid-row data-index=${idx} ?selected=${selected}
+                                   class=${rowStyling.classes ?? nothing} style=${rowStyling.style ?? nothing}
+                                   aria-rowindex=${displayIndex + headerRows + 1}
+                                   aria-selected=${this.selectionMode !== 'none' ? String(selected) : nothing}
+                                   aria-expanded=${this.detailRenderer ? String(this.isRowExpanded(row)) : nothing}
+                                   @click=${(e: MouseEvent) => this.onRowClick(e, row)}>
+                        ${this.hasSelectionColumn ? this.renderSelectionCell(row, idx) : nothing}
+                        ${columns.map(({column, index}, col) => {
+                            const cellRef: Ref<Element> = createRef();
+                            const {classes, style} = this.getCellStyling(row, column, idx);
+                            return html`
+                            <data-grid-cell ${ref(cellRef)} .row=${row} .column=${column} class=${classes ?? nothing}
+                                            aria-colindex=${col + offset + 1} tabindex=${this.getTabIndex(idx, col + offset)}
+                                            data-pinned=${pinned.get(index)?.side ?? nothing} ?data-pinned-edge=${pinned.get(index)?.edge}
+                                            style=${this.getPinnedStyle(pinned.get(index), style)}
+                                            ?data-range=${within(range, idx, col + offset)}
+                                            ?data-fill=${within(fill, idx, col + offset)}
+                                            ?editing=${this.editing?.row === row && this.editing?.field === column.field}>
+                                ${this.detailRenderer && col === 0 ? this.renderRowToggle(row) : nothing}
+                                ${this.renderCell(row, column, idx)}
+                                ${this.editable && range && idx === range.bottom && col + offset === range.right ? html`
+                                    <div class="fill-handle" aria-hidden="true"></div>
+                                ` : nothing}
+                            </data-grid-cell>
+                        `
+                        })}
+                    </data-grid-row>
+                `})}
+                ${this.virtual ? html`<div class="spacer" aria-hidden="true" style="height: ${(this.displayItems.length - start - items.length) * this.virtualRowHeight}px"></div>` : nothing}
+                ${this.renderStatus()}
+                </div>
+                ${this.hasPager ? html`
+                    <data-grid-pager class="foot" part="pager" role="navigation" aria-label="Pagination" .page=${this.page}
+                                     .pageSize=${this.pageSize} .pageSizeOptions=${this.pageSizeOptions}
+                                     .rowCount=${this.pagedRowCount}></data-grid-pager>
+                ` : nothing}
+            </div>
+        `
+    }
+
+    static styles = css`
+        ${themeStyles}
+        :host {
+            --grid-template-columns: auto;
+        }
+        data-grid {
+            display: block;
+            position: relative;
+            font-family: var(--grid-font-family);
+            font-size: var(--grid-font-size);
+            color: var(--grid-color);
+            background-color: var(--grid-background);
+        }
+        .grid {
+            display: grid;
+            position: relative;
+            overflow: auto;
+            grid-template-columns: var(--grid-template-columns);
+        }
+
+        .head {
+            position: sticky;
+            top: 0;
+            z-index: 2;
+            background-color: var(--grid-background);
+        }
+
+        .head, .body {
+            display: grid;
+            box-sizing: border-box;
+            grid-template-columns: subgrid;
+            grid-column: 1/-1;
+        }
+        
+        data-grid[virtual] > .grid, data-grid[data-source-mode="infinite"] > .grid {
+            overflow-anchor: none;
+            max-height: var(--grid-max-height, 400px);
+        }
+
+        data-grid > data-grid-column {
+            display: none;
+        }
+
+        data-grid > .grid > .body > data-grid-row[data-index] {
+            min-height: var(--grid-row-height);
+        }
+
+        data-grid[virtual][row-height] > .grid > .body > data-grid-row:not(.detail-row) {
+            height: var(--row-height);
+            box-sizing: border-box;
+            overflow: hidden;
+        }
+
+        data-grid-cell:focus-visible, data-grid-column:focus-visible {
+            outline: 2px solid var(--grid-accent-color);
+            outline-offset: -2px;
+        }
+
+        [data-pinned] {
+            position: sticky;
+            z-index: 1;
+        }
+
+        .selection-cell[data-pinned] {
+            left: 0;
+        }
+
+        data-grid-cell[data-pinned] {
+            background-color: var(--grid-background);
+        }
+
+        data-grid-row[selected] > data-grid-cell[data-pinned] {
+            background-color: var(--grid-selected-background);
+        }
+
+        data-grid[cell-selection] > .grid > .body {
+            user-select: none;
+        }
+
+        data-grid-cell[data-range] {
+            background-color: var(--grid-range-background);
+        }
+
+        data-grid-cell[data-fill] {
+            outline: 1px dashed var(--grid-accent-color);
+            outline-offset: -1px;
+        }
+
+        .fill-handle {
+            position: absolute;
+            right: 0;
+            bottom: 0;
+            width: 7px;
+            height: 7px;
+            box-sizing: border-box;
+            background-color: var(--grid-accent-color);
+            border: 1px solid var(--grid-accent-contrast-color);
+            cursor: crosshair;
+        }
+
+        [data-pinned="left"][data-pinned-edge] {
+            box-shadow: 2px 0 4px -2px var(--grid-pinned-shadow-color);
+        }
+
+        [data-pinned="right"][data-pinned-edge] {
+            box-shadow: -2px 0 4px -2px var(--grid-pinned-shadow-color);
+        }
+
+        .group-by-zone {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 4px;
+            min-height: 2em;
+            padding: 4px;
+            border: 1px dashed var(--grid-border-color);
+            margin-bottom: 4px;
+        }
+
+        .group-by-placeholder {
+            align-self: center;
+            color: var(--grid-muted-color);
+        }
+
+        .group-chip {
+            display: inline-flex;
+            align-items: center;
+            gap: 4px;
+            padding: 2px 8px;
+            background-color: var(--grid-header-background);
+            border-radius: 12px;
+        }
+
+        .group-chip > button, .group-toggle {
+            border: none;
+            background: none;
+            color: inherit;
+            font: inherit;
+            cursor: pointer;
+            padding: 0 2px;
+        }
+
+        .row-toggle {
+            border: none;
+            background: none;
+            color: inherit;
+            font: inherit;
+            cursor: pointer;
+            padding: 0 4px 0 0;
+        }
+
+        .detail-row > .detail-cell {
+            grid-column: 1/-1;
+            padding: 1em;
+            background-color: var(--grid-group-background);
+        }
+
+        .detail-cell > .status {
+            color: var(--grid-muted-color);
+        }
+
+        .detail-cell > .status.error {
+            color: var(--grid-error-color);
+        }
+
+        .group-row > .group-cell {
+            grid-column: 1/-1;
+            font-weight: 500;
+            background-color: var(--grid-group-background);
+        }
+
+        .group-count {
+            color: var(--grid-muted-color);
+            font-weight: normal;
+        }
+
+        .group-footer > data-grid-cell, .grand-total > data-grid-cell {
+            font-weight: 500;
+            background-color: var(--grid-group-background);
+        }
+
+        .selection-cell {
+            display: flex;
+            align-items: center;
+            justify-content: center;
+        }
+
+        data-grid[loading] > .grid > .body > data-grid-row {
+            opacity: 0.5;
+        }
+
+        .body > .status {
+            grid-column: 1/-1;
+            padding: 1em;
+            text-align: center;
+            color: var(--grid-muted-color);
+        }
+
+        .body > .status.error {
+            color: var(--grid-error-color);
+        }
+
+        .body > .spacer {
+            grid-column: 1/-1;
+        }
+
+        .foot {
+            grid-column: 1/-1;
+            position: sticky;
+            bottom: 0;
+            z-index: 2;
+        }
+
+        [slot="reorder-handle"] {
+            cursor: grab;
+            display: inline-block;
+            width: 16px;
+            height: 16px;
+            background-color: var(--grid-reorder-handle-color);
+            margin-right: 4px;
+        }
+
+        [data-editor] {
+            box-sizing: border-box;
+            width: 100%;
+            font: inherit;
+        }
+
+        .cell-editor-error {
+            color: var(--grid-error-color);
+            font-size: 0.85em;
+        }
+    `
+
+    override createRenderRoot() {
+        /**
+         * Rendering this in Light DOM allows for styling to bleed through
+         * from the users stylesheets
+         */
+        this.adoptStyles();
         return this
     }
+
+    /**
+     * Adds the stylesheet to the document or shadow root the grid is in, once for every grid it holds
+     */
+    private adoptStyles() {
+        const root = this.getRootNode();
+        if(!(root instanceof Document || root instanceof ShadowRoot) || adoptedRoots.has(root)) return;
+        if(!sharedSheet) {
+            sharedSheet = new CSSStyleSheet();
+            sharedSheet.replaceSync(DataGrid.styles.toString());
+        }
+        root.adoptedStyleSheets = [...root.adoptedStyleSheets, sharedSheet];
+        adoptedRoots.add(root);
+    }
 }
 
 declare global {
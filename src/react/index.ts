@@ -0,0 +1,107 @@
+import {
+    createElement,
+    CSSProperties,
+    forwardRef,
+    ReactElement,
+    ReactNode,
+    RefAttributes,
+    useEffect,
+    useImperativeHandle,
+    useLayoutEffect,
+    useRef
+} from "react";
+import {createRoot, Root} from "react-dom/client";
+import "../data-grid.ts";
+import {DataGrid as DataGridElement} from "../data-grid.ts";
+import {FrameworkRenderer} from "../types.ts";
+import {
+    DATA_GRID_EVENTS,
+    DataGridEventProps,
+    DataGridProperties,
+    getEventPropName,
+    syncGridProperties
+} from "../utils/framework.ts";
+
+export type * from "../types.ts";
+export type {DataGridElement};
+
+export interface DataGridProps<T extends object = any> extends DataGridProperties<T>, DataGridEventProps<T> {
+    className?: string;
+    style?: CSSProperties;
+    children?: ReactNode;
+}
+
+/**
+ * The root of each container, kept so later renders update it rather than creating another
+ */
+const roots = new WeakMap<HTMLElement, Root>();
+/**
+ * The roots whose unmount is queued, a container rendered again before it runs keeps its root
+ */
+const unmounting = new WeakSet<Root>();
+
+/**
+ * Mounts the React elements returned by `Column.render`, `Column.editor` and `detailRenderer` in their own roots
+ */
+const reactRenderer: FrameworkRenderer = (content, container) => {
+    let root = roots.get(container);
+    if(root) {
+        unmounting.delete(root);
+    } else {
+        root = createRoot(container);
+        roots.set(container, root);
+    }
+    root.render(content);
+    const mounted = root;
+    return () => {
+        unmounting.add(mounted);
+        // React can't unmount a root while it is rendering, which is when lit may remove a cell
+        queueMicrotask(() => {
+            if(!unmounting.has(mounted)) return;
+            unmounting.delete(mounted);
+            roots.delete(container);
+            mounted.unmount();
+        });
+    };
+};
+
+/**
+ * Data Grid for React
+ *
+ * Passes every prop to the `<data-grid>` element and calls the `on*` props with its custom events,
+ * the ref is the element itself for calling methods such as `undo()` or `exportData()`.
+ * The type of the rows is inferred from the `rows` and `columns` props.
+ */
+export const DataGrid = forwardRef<DataGridElement, DataGridProps>(function DataGrid(props, forwardedRef) {
+    const ref = useRef<DataGridElement>(null);
+    const propsRef = useRef(props);
+    const assigned = useRef(new Set<keyof DataGridProperties>());
+    propsRef.current = props;
+    useImperativeHandle(forwardedRef, () => ref.current as DataGridElement);
+
+    useLayoutEffect(() => {
+        const grid = ref.current;
+        if(!grid) return;
+        if(grid.renderer !== reactRenderer) grid.renderer = reactRenderer;
+        syncGridProperties(grid, props, assigned.current);
+    });
+
+    useEffect(() => {
+        const grid = ref.current;
+        if(!grid) return;
+        // Listeners read the latest props, so they are only added once
+        const listeners = DATA_GRID_EVENTS.map(name => {
+            const listener = (event: Event) => {
+                // Events of grids nested in detail panels bubble up too
+                if(event.target !== grid) return;
+                (propsRef.current[getEventPropName(name)] as ((event: Event) => void) | undefined)?.(event);
+            };
+            grid.addEventListener(name, listener);
+            return () => grid.removeEventListener(name, listener);
+        });
+        return () => listeners.forEach(remove => remove());
+    }, []);
+
+    // React sets unknown props of custom elements as attributes as they are named
+    return createElement('data-grid', {ref, class: props.className, style: props.style}, props.children);
+}) as <T extends object = any>(props: DataGridProps<T> & RefAttributes<DataGridElement<T>>) => ReactElement | null;
@@ -1,25 +1,115 @@
 import {css} from "lit";
+/**
+ * The design tokens of the grid, with the light theme and normal density as defaults.
+ * `:where()` keeps them at zero specificity so a page's own `data-grid { --grid-…: … }` rules win.
+ */
+export const themeStyles = css`
+    :where(data-grid) {
+        --grid-font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, 'Open Sans', 'Helvetica Neue', sans-serif;
+        --grid-font-size: 1em;
+        --grid-color: black;
+        --grid-background: white;
+        --grid-border-color: #e0e0e0;
+        --grid-border-width: 1px;
+        --grid-header-color: var(--grid-color);
+        --grid-header-background: #f0f0f0;
+        --grid-hover-background: #f0f0f0;
+        --grid-muted-color: #606060;
+        --grid-accent-color: #1a73e8;
+        --grid-accent-contrast-color: white;
+        --grid-selected-background: #e8f0fe;
+        --grid-range-background: #dbe7fd;
+        --grid-data-bar-color: #c2d7fb;
+        --grid-group-background: #fafafa;
+        --grid-error-color: #b00020;
+        --grid-resize-handle-color: #f0f0f0;
+        --grid-resize-handle-hover-color: #e0e0e0;
+        --grid-reorder-handle-color: lightgray;
+        --grid-pinned-shadow-color: rgba(0, 0, 0, 0.3);
+        --grid-popup-shadow: 0 2px 8px rgba(0, 0, 0, 0.15);
+        --grid-cell-padding: 0.5em;
+        --grid-editor-padding: 0.25em;
+        --grid-row-height: 36px;
+    }
+    :where(data-grid[theme="dark"]) {
+        color-scheme: dark;
+        --grid-color: #e8eaed;
+        --grid-background: #202124;
+        --grid-border-color: #3c4043;
+        --grid-header-background: #2d2e31;
+        --grid-hover-background: #3c4043;
+        --grid-muted-color: #9aa0a6;
+        --grid-accent-color: #8ab4f8;
+        --grid-accent-contrast-color: #202124;
+        --grid-selected-background: #283b57;
+        --grid-range-background: #2f4a75;
+        --grid-data-bar-color: #35507d;
+        --grid-group-background: #28292c;
+        --grid-error-color: #f28b82;
+        --grid-resize-handle-color: #2d2e31;
+        --grid-resize-handle-hover-color: #5f6368;
+        --grid-reorder-handle-color: #5f6368;
+        --grid-pinned-shadow-color: rgba(0, 0, 0, 0.6);
+        --grid-popup-shadow: 0 2px 8px rgba(0, 0, 0, 0.6);
+    }
+    :where(data-grid[theme="high-contrast"]) {
+        color-scheme: dark;
+        --grid-color: white;
+        --grid-background: black;
+        --grid-border-color: white;
+        --grid-border-width: 2px;
+        --grid-header-color: yellow;
+        --grid-header-background: black;
+        --grid-hover-background: #333333;
+        --grid-muted-color: white;
+        --grid-accent-color: yellow;
+        --grid-accent-contrast-color: black;
+        --grid-selected-background: #00307a;
+        --grid-range-background: #5a0f6e;
+        --grid-data-bar-color: #006060;
+        --grid-group-background: black;
+        --grid-error-color: #ff8080;
+        --grid-resize-handle-color: white;
+        --grid-resize-handle-hover-color: yellow;
+        --grid-reorder-handle-color: white;
+        --grid-pinned-shadow-color: white;
+        --grid-popup-shadow: 0 0 0 2px white;
+    }
+    :where(data-grid[density="compact"]) {
+        --grid-cell-padding: 0.25em 0.5em;
+        --grid-editor-padding: 0.125em 0.25em;
+        --grid-row-height: 28px;
+    }
+    :where(data-grid[density="comfortable"]) {
+        --grid-cell-padding: 0.75em;
+        --grid-editor-padding: 0.5em;
+        --grid-row-height: 48px;
+    }
+`;
+
 export const cellBaseStyles = css`
     :host {
-        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, 'Open Sans', 'Helvetica Neue', sans-serif;
+        font-family: var(--grid-font-family);
         display: block;
-        border-bottom: 1px solid #e0e0e0;
+        border-bottom: var(--grid-border-width) solid var(--grid-border-color);
         position: relative;
-        padding: 0.5em;
+        padding: var(--grid-cell-padding);
         text-align: left;
     }
 `;
 
 export const headerBaseStyles = css`
     :host {
-        background-color: #f0f0f0;
+        background-color: var(--grid-header-background);
+        color: var(--grid-header-color);
         font-weight: 500;
+        user-select: none;
     }
 `;
 
 export const headerResizerStyles = css`
     :host(:hover) .resize-handle {
-        background-color: #e0e0e0;
+        background-color: var(--grid-resize-handle-hover-color);
     }
     .resize-handle {
         position: absolute;
@@ -28,6 +118,97 @@ export const headerResizerStyles = css`
         bottom: 0;
         width: 5px;
         cursor: col-resize;
-        background-color: #f0f0f0;
+        background-color: var(--grid-resize-handle-color);
+    }
+`;
+
+export const headerSortStyles = css`
+    :host([sortable]) {
+        cursor: pointer;
+    }
+    .sort-indicator {
+        display: inline-flex;
+        align-items: center;
+        gap: 2px;
+        margin-left: 4px;
+        font-size: 0.75em;
+        color: var(--grid-muted-color);
+    }
+    .sort-indicator[data-sort-direction="asc"]::before {
+        content: '▲';
+    }
+    .sort-indicator[data-sort-direction="desc"]::before {
+        content: '▼';
+    }
+`;
+
+export const cellEditStyles = css`
+    :host([editing]) {
+        padding: var(--grid-editor-padding);
+        outline: 2px solid var(--grid-accent-color);
+        outline-offset: -2px;
+    }
+`;
+
+export const headerMenuStyles = css`
+    .menu-button {
+        float: right;
+        margin-right: 4px;
+        padding: 0 4px;
+        border: none;
+        background: none;
+        color: inherit;
+        font: inherit;
+        cursor: pointer;
+        opacity: 0;
+    }
+    :host(:hover) .menu-button, .menu-button:focus-visible, .menu-button[aria-expanded="true"] {
+        opacity: 1;
+    }
+    .menu {
+        position: fixed;
+        z-index: 2;
+        display: flex;
+        flex-direction: column;
+        min-width: 160px;
+        padding: 4px 0;
+        background-color: var(--grid-background);
+        color: var(--grid-color);
+        border: 1px solid var(--grid-border-color);
+        box-shadow: var(--grid-popup-shadow);
+        font-weight: normal;
+    }
+    .menu [role="menuitem"] {
+        padding: 4px 12px;
+        border: none;
+        background: none;
+        color: inherit;
+        font: inherit;
+        text-align: left;
+        cursor: pointer;
+    }
+    .menu [role="menuitem"]:hover, .menu [role="menuitem"]:focus-visible {
+        background-color: var(--grid-hover-background);
+    }
+`;
+
+export const headerTooltipStyles = css`
+    .tooltip {
+        display: none;
+        position: absolute;
+        top: 100%;
+        left: 0;
+        z-index: 3;
+        max-width: 300px;
+        padding: 4px 8px;
+        background-color: var(--grid-background);
+        color: var(--grid-color);
+        border: 1px solid var(--grid-border-color);
+        box-shadow: var(--grid-popup-shadow);
+        font-weight: normal;
+        white-space: normal;
+    }
+    .label:hover ~ .tooltip, :host(:focus-visible) .tooltip {
+        display: block;
     }
 `;
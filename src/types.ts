@@ -1,21 +1,318 @@
 
 export type ColumnAlignment = 'start' | 'center' | 'end';
+export type SortDirection = 'asc' | 'desc';
+export type FilterType = 'text' | 'number' | 'date' | 'set';
+export type TextFilterOperator = 'contains' | 'equals' | 'startsWith';
+export type EditorType = 'text' | 'number' | 'select' | 'checkbox' | 'date';
+export type SelectionMode = 'none' | 'single' | 'multi';
+export type DataSourceMode = 'paged' | 'infinite';
+export type PinnedSide = 'left' | 'right';
+export type AggregateName = 'sum' | 'avg' | 'min' | 'max' | 'count';
+export type AggregateFunction<T extends object = Row> = (values: any[], rows: T[]) => any;
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'xlsx';
+export type GridTheme = 'light' | 'dark' | 'high-contrast';
+export type GridDensity = 'compact' | 'normal' | 'comfortable';
 
 export interface Row {
     [key: string]: any;
 }
-export interface Column {
+type PathLeaf = string | number | boolean | bigint | symbol | null | undefined | Date | readonly unknown[] | ((...args: any[]) => any);
+type PathDepth = [never, 0, 1, 2, 3];
+/**
+ * The keys of a row and the dotted paths to its nested values, such as `'address.city'`, four levels deep at most.
+ * Rows with an index signature, such as `Row`, accept any string.
+ */
+export type FieldPath<T, Depth extends number = 4> = string extends keyof T ? string : [Depth] extends [never] ? never : {
+    [K in keyof T & string]: NonNullable<T[K]> extends PathLeaf ? K : K | `${K}.${FieldPath<NonNullable<T[K]>, PathDepth[Depth]>}`
+}[keyof T & string];
+/**
+ * Passed to `Column.render`
+ */
+export interface CellRenderParams<T extends object = Row> {
+    value: any; // The value of the cell, as returned by the valueGetter or read from the field
+    row: T; // The row of the cell
+    rowIndex: number; // The index of the row in the rendered view, which may be sorted or filtered
+    column: Column<T>; // The column of the cell
+}
+/**
+ * A column of a grid whose rows are of type `T`.
+ * Without a type argument the rows are untyped, so any `Column<T>` is accepted where a `Column` is expected.
+ */
+export interface Column<T extends object = any> {
     align?: ColumnAlignment;
     description?: string; // A description of the column
-    field: string; // The key to use to access the data in the row
+    field: FieldPath<T>; // The key of the value in the row, or a dotted path to a nested value such as 'address.city'
     label: string; // The label to display in the header
-    width?: number; // The starting width of the column
+    width?: number; // The starting width of the column, in pixels, kept when the grid is resized
+    flex?: number; // The share of the space left by fixed-width columns, relative to other flexible columns, defaults to 1 without a width
     minWidth?: number; // The minimum width of the column
     maxWidth?: number; // The maximum width of the column
-    editable?: boolean; // Whether the column is editable, defaults to false
-    filterable?: boolean; // Whether the column is filterable, defaults to false
-    sortable?: boolean; // Whether the column is sortable, defaults to false
+    editable?: boolean; // Whether the column is editable, defaults to true when the grid is editable and the column has no valueGetter
+    filterable?: boolean; // Whether the column is filterable, defaults to true when the grid is filterable
+    sortable?: boolean; // Whether the column is sortable, defaults to true when the grid is sortable
     hideable?: boolean; // Whether the column is hideable, defaults to true
+    hidden?: boolean; // Whether the column is hidden, defaults to false
+    pinned?: PinnedSide; // Keeps the column in view on that side while scrolling horizontally
+    aggregate?: AggregateName | AggregateFunction<T>; // Summarizes the column in group and grand-total footers
+    groupValue?: (value: any, row: T) => unknown; // The value rows are grouped by and the group is labelled with, such as the month of a date
+    exportValue?: (value: any, row: T) => any; // Formats the value written by exportData, defaults to the formatted value
     resizable?: boolean; // Whether the column is resizable, defaults to true
-    render?: (row: Row, index: number) => any; // A function to render the cell
+    valueGetter?: (row: T) => any; // Computes the value of the cell instead of reading the field, which makes it read-only unless editable and a valueParser are set
+    valueFormatter?: (value: any, row: T) => string; // Turns the value into the text displayed, searched and exported
+    valueParser?: (text: string, row: T) => any; // Turns text typed in an editor or pasted into a value of the field
+    render?: (params: CellRenderParams<T>) => any; // A function to render the cell, defaults to the formatted value
+    compare?: (a: any, b: any, rowA: T, rowB: T) => number; // A function to compare two values when sorting
+    filterType?: FilterType; // The kind of filter to show, inferred from the values when omitted
+    filterOptions?: FilterValue[]; // The values offered by a set filter, defaults to the distinct values of the column
+    editor?: EditorType | ((context: EditorContext<T>) => any); // The editor to use, inferred from the value when omitted
+    editorOptions?: EditorOption[]; // The options of a select editor, defaults to the distinct values of the column
+    validate?: (value: any, row: T) => string | void; // Returns a message when the value is rejected
+    cellClass?: string | ((params: CellRenderParams<T>) => string | undefined); // Classes added to the cells, separated by spaces
+    cellStyle?: StyleDeclarations | ((params: CellRenderParams<T>) => StyleDeclarations | undefined); // Styles added to the cells
+    cellRules?: CellRule[]; // Conditional formatting of the cells, applied in order after cellClass and cellStyle
+}
+/**
+ * CSS declarations keyed by property name, such as `{'background-color': '#fdecea'}`
+ */
+export interface StyleDeclarations {
+    [property: string]: string;
+}
+export type ThresholdOperator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+/**
+ * Styles the cells whose value compares to a fixed value, such as negative balances
+ */
+export interface ThresholdRule {
+    type: 'threshold';
+    operator: ThresholdOperator;
+    value: FilterValue; // The value to compare to, dates are written as YYYY-MM-DD
+    className?: string; // Classes added to the matching cells, separated by spaces
+    style?: StyleDeclarations; // Styles added to the matching cells
+}
+/**
+ * Colors the cells along a gradient, from the lowest value of the column to the highest
+ */
+export interface ColorScaleRule {
+    type: 'colorScale';
+    colors: string[]; // The colors of the lowest and highest values, with any colors in between
+    min?: number; // The value given the first color, defaults to the lowest of the column
+    max?: number; // The value given the last color, defaults to the highest of the column
+    property?: 'background-color' | 'color'; // What is colored, defaults to the background
+}
+/**
+ * Draws a bar behind the value of the cells, as long as the value is large
+ */
+export interface DataBarRule {
+    type: 'dataBar';
+    color?: string; // The color of the bar, defaults to --grid-data-bar-color
+    min?: number; // The value given an empty bar, defaults to the lowest of the column or 0 when it is positive
+    max?: number; // The value given a full bar, defaults to the highest of the column
+}
+/**
+ * A conditional formatting rule, made of plain data so it can be saved along with the columns
+ */
+export type CellRule = ThresholdRule | ColorScaleRule | DataBarRule;
+export interface EditorOption {
+    value: any;
+    label: string;
+}
+/**
+ * Passed to built-in and custom editors
+ */
+export interface EditorContext<T extends object = Row> {
+    value: any; // The value being edited
+    row: T; // The row being edited
+    column: Column<T>; // The column being edited
+    error?: string; // The message of the last rejected commit
+    commit: (value: any) => void; // Validates and commits a new value
+    cancel: () => void; // Closes the editor without committing
+}
+/**
+ * The detail of the cell-edit-start, cell-edit-commit and cell-edit-cancel events
+ */
+export interface CellEditDetail<T extends object = Row> {
+    row: T;
+    field: string;
+    oldValue: any;
+    newValue: any;
+}
+/**
+ * A cell of the rendered grid
+ */
+export interface CellPosition {
+    row: number; // The index of the row in the rendered view, which may be sorted or filtered
+    col: number; // The visual index of the column, counting the checkbox column
+}
+/**
+ * A rectangular block of cells, from the cell the selection started at to the one it was extended to
+ */
+export interface CellRange {
+    anchor: CellPosition;
+    focus: CellPosition;
+}
+/**
+ * The detail of the cells-change event, fired once for every cell written by a paste or a fill
+ */
+export interface CellsChangeDetail<T extends object = Row> {
+    changes: CellEditDetail<T>[];
+    source: 'paste' | 'fill';
+}
+/**
+ * The detail of the rows-reorder event, proposing the order in controlled mode
+ */
+export interface RowsReorderDetail<T extends object = Row> {
+    rows: T[]; // A copy of rows with the row moved
+    rowId: unknown; // The id of the moved row, as returned by getRowId
+    from: number; // The index of the row in rows
+    to: number; // The index of the row in the proposed rows
+}
+/**
+ * The detail of the columns-reorder event, proposing the order in controlled mode
+ */
+export interface ColumnsReorderDetail<T extends object = Row> {
+    columns: Column<T>[]; // A copy of columns with the column moved
+    from: number; // The index of the column in columns
+    to: number; // The index of the column in the proposed columns
+}
+/**
+ * The detail of the column-resize event, fired once a resize is done
+ */
+export interface ColumnResizeDetail {
+    field: string; // The field of the resized column
+    width: number; // The new width, as a percentage of the grid
+    widths: {[field: string]: number}; // The width of every column, as a percentage of the grid
+}
+/**
+ * The detail of the row-change event, proposing new values for a row in controlled mode
+ */
+export interface RowChangeDetail<T extends object = Row> {
+    rowId: unknown; // The id of the row, as returned by getRowId
+    row: T; // The row as it is
+    patch: {[field: string]: any}; // The changed fields, or dotted paths, and their new values
+    newRow: T; // A copy of the row with the patch applied, nested objects along the changed paths are copied too
+}
+export interface ColumnMenuItem {
+    id: string; // A unique identifier for the item
+    label: string; // The label to display in the menu
+    action: () => void; // Called when the item is chosen
+}
+export interface SortItem {
+    field: string; // The field of the column being sorted
+    direction: SortDirection; // The direction of the sort
+}
+
+export type FilterValue = string | number | boolean | null;
+export interface TextFilter {
+    type: 'text';
+    operator: TextFilterOperator;
+    value: string;
+}
+export interface NumberFilter {
+    type: 'number';
+    min?: number; // Inclusive lower bound
+    max?: number; // Inclusive upper bound
+}
+export interface DateFilter {
+    type: 'date';
+    from?: string; // Inclusive start date, as YYYY-MM-DD
+    to?: string; // Inclusive end date, as YYYY-MM-DD
+}
+export interface SetFilter {
+    type: 'set';
+    values: FilterValue[]; // The values to keep
+}
+export type ColumnFilter = TextFilter | NumberFilter | DateFilter | SetFilter;
+/**
+ * The filters applied to the grid, keyed by column field
+ */
+export interface FilterModel {
+    [field: string]: ColumnFilter;
+}
+/**
+ * A JSON-serializable snapshot of the user-adjustable parts of a grid
+ */
+export interface GridState {
+    version: number; // The version of the snapshot format
+    columnOrder: string[]; // The fields of the columns, in display order
+    widths: {[field: string]: number}; // The width of each column, as a percentage of the grid
+    hidden: string[]; // The fields of the hidden columns
+    pinned?: {[field: string]: PinnedSide}; // The side each pinned column is pinned to
+    groupBy?: string[]; // The fields the rows are grouped by
+    sort: SortItem[];
+    filter: FilterModel;
+}
+/**
+ * Where persisted grid state is kept, `localStorage` and `sessionStorage` satisfy it as is
+ */
+export interface GridStateStorage {
+    getItem(key: string): string | null | Promise<string | null>;
+    setItem(key: string, value: string): void | Promise<void>;
+}
+/**
+ * What the grid asks a data source for
+ */
+export interface DataSourceParams {
+    offset: number; // The index of the first row to return
+    limit: number; // The maximum number of rows to return
+    sort: SortItem[];
+    filter: FilterModel;
+    quickFilter?: string;
+    signal: AbortSignal; // Aborted when the parameters change before the request completes
+}
+export interface DataSourceResult<T extends object = Row> {
+    rows: T[]; // The requested rows
+    totalCount: number; // The number of rows matching the filter, across every page
+}
+/**
+ * Provides rows to a grid that doesn't hold the whole dataset, with sorting and filtering done by the provider
+ */
+export type DataSource<T extends object = Row> = (params: DataSourceParams) => Promise<DataSourceResult<T>>;
+/**
+ * A set of rows sharing the same value for a group-by field
+ */
+export interface RowGroup<T extends object = Row> {
+    key: string; // Identifies the group among every group of the grid, built from the values of its ancestors
+    field: string; // The field the group shares
+    value: any; // The value the group shares
+    depth: number; // How deeply the group is nested, starting at 0
+    rows: T[]; // Every row in the group, including those of nested groups
+    children?: RowGroup<T>[]; // The nested groups, when grouped by another field
+}
+export interface ExportOptions {
+    selectedOnly?: boolean; // Only export the selected rows
+    delimiter?: string; // Overrides the delimiter of csv (,) and tsv (tab)
+    includeHeaders?: boolean; // Whether to write the column labels first, defaults to true
+    fileName?: string; // When set, the file is also downloaded under this name
+}
+/**
+ * The custom events fired by a grid and their detail, as wrapped by the framework components
+ */
+export interface DataGridEventMap<T extends object = Row> {
+    'sort-change': {sort: SortItem[]};
+    'filter-change': {filter: FilterModel};
+    'data-error': {error: unknown};
+    'column-visibility-change': {hidden: string[], columns: Column<T>[]};
+    'column-pin-change': {field: string, pinned?: PinnedSide, columns: Column<T>[]};
+    'column-resize': ColumnResizeDetail;
+    'columns-reorder': ColumnsReorderDetail<T>;
+    'rows-reorder': RowsReorderDetail<T>;
+    'group-by-change': {groupBy: string[]};
+    'group-toggle': {key: string, expanded: boolean};
+    'row-expand': {row: T};
+    'row-collapse': {row: T};
+    'selection-change': {selectedRows: T[]};
+    'cell-edit-start': CellEditDetail<T>;
+    'cell-edit-commit': CellEditDetail<T>;
+    'cell-edit-cancel': CellEditDetail<T>;
+    'cells-change': CellsChangeDetail<T>;
+    'row-change': RowChangeDetail<T>;
+    'history-change': {canUndo: boolean, canRedo: boolean};
+    'page-change': {page: number, pageSize: number};
+    'columns-change': {columns: Column<T>[]};
+    'rows-load': {rows: T[], totalCount: number};
 }
+/**
+ * Draws content made by a framework, such as a React element or a Vue VNode, into a container.
+ * It is called again with new content for the same container on updates, and should update it in place.
+ * Returns a function that unmounts it when the container is no longer rendered.
+ */
+export type FrameworkRenderer = (content: any, container: HTMLElement) => void | (() => void);
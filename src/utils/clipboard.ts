@@ -0,0 +1,94 @@
+import {Column} from "../types.ts";
+import {ExportCell} from "./export.ts";
+import {inferEditorType} from "./editors.ts";
+import {getCellValue} from "./value.ts";
+
+/**
+ * Splits delimited text, as spreadsheets put on the clipboard, into rows of values.
+ * Quoted values may contain the delimiter, doubled quotes and line breaks.
+ */
+export function parseDelimited(text: string, delimiter = '\t'): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let value = '';
+    let quoted = false;
+    for(let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if(quoted) {
+            if(c === '"' && text[i + 1] === '"') {
+                value += '"';
+                i++;
+            } else if(c === '"') {
+                quoted = false;
+            } else {
+                value += c;
+            }
+        } else if(c === '"' && value === '') {
+            quoted = true;
+        } else if(c === delimiter) {
+            row.push(value);
+            value = '';
+        } else if(c === '\r' || c === '\n') {
+            if(c === '\r' && text[i + 1] === '\n') i++;
+            row.push(value);
+            rows.push(row);
+            row = [];
+            value = '';
+        } else {
+            value += c;
+        }
+    }
+    // Spreadsheets end the copied text with a line break, which isn't an extra row
+    if(value !== '' || row.length) {
+        row.push(value);
+        rows.push(row);
+    }
+    return rows;
+}
+
+/**
+ * Writes a table as HTML, which spreadsheets prefer over plain text when pasting
+ */
+export function toHtmlTable(table: ExportCell[][]): string {
+    const escape = (value: ExportCell) => value === null ? '' : String(value)
+        .replace(/[<>&"]/g, c => ({'<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;'})[c] as string);
+    return `<table>${table.map(row => `<tr>${row.map(value => `<td>${escape(value)}</td>`).join('')}</tr>`).join('')}</table>`;
+}
+
+/**
+ * Converts pasted text to a value of the column, with its valueParser or else using the same types as its editor
+ * @param text - The pasted text
+ * @param column - The column being pasted into
+ * @param row - The row being pasted into, its current value infers the type when the column has no editor
+ * @returns An object holding the value, or undefined when the text can't be converted
+ */
+export function parseCellValue<T extends object>(text: string, column: Column<T>, row: T): {value: unknown} | undefined {
+    if(column.valueParser) return {value: column.valueParser(text, row)};
+    const current = getCellValue(row, column);
+    const type = typeof column.editor === 'string' ? column.editor : inferEditorType(current);
+    const trimmed = text.trim();
+    switch(type) {
+        case 'number': {
+            if(trimmed === '') return {value: null};
+            const value = Number(trimmed);
+            return isNaN(value) ? undefined : {value};
+        }
+        case 'checkbox':
+            if(/^(true|yes|1)$/i.test(trimmed)) return {value: true};
+            if(/^(false|no|0|)$/i.test(trimmed)) return {value: false};
+            return undefined;
+        case 'date': {
+            if(!(current instanceof Date)) return {value: trimmed};
+            if(trimmed === '') return {value: null};
+            const value = new Date(/^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? `${trimmed}T00:00` : trimmed);
+            return isNaN(value.getTime()) ? undefined : {value};
+        }
+        case 'select': {
+            const option = column.editorOptions?.find(o => o.label === trimmed || String(o.value) === trimmed);
+            if(column.editorOptions) return option ? {value: option.value} : undefined;
+            return {value: text};
+        }
+        default:
+            return {value: text};
+    }
+}
@@ -0,0 +1,56 @@
+import {Column, DataSource, DataSourceParams, DataSourceResult, Row} from "../types.ts";
+import {filterRows} from "./filter.ts";
+import {sortRows} from "./sort.ts";
+
+/**
+ * Keeps the most recently fetched blocks of a data source, keyed by their request parameters
+ */
+export class BlockCache<T extends object = Row> {
+    private blocks = new Map<string, DataSourceResult<T>>();
+
+    constructor(private maxBlocks = 50) {}
+
+    static key({offset, limit, sort, filter, quickFilter}: Omit<DataSourceParams, 'signal'>) {
+        return JSON.stringify({offset, limit, sort, filter, quickFilter});
+    }
+
+    get(key: string) {
+        const block = this.blocks.get(key);
+        if(block) {
+            // Re-insert so the block counts as recently used
+            this.blocks.delete(key);
+            this.blocks.set(key, block);
+        }
+        return block;
+    }
+
+    set(key: string, block: DataSourceResult<T>) {
+        this.blocks.delete(key);
+        this.blocks.set(key, block);
+        if(this.blocks.size > this.maxBlocks) this.blocks.delete(this.blocks.keys().next().value as string);
+    }
+
+    clear() {
+        this.blocks.clear();
+    }
+}
+
+/**
+ * Creates a data source backed by an in-memory array, useful for demos and tests.
+ * Sorting and filtering behave exactly as they do on the client.
+ * @param rows - The full dataset
+ * @param columns - The columns, used for their comparators and by the quick filter
+ * @param latency - How long each request takes, in milliseconds
+ */
+export function createInMemoryDataSource<T extends object>(rows: T[], columns: Column<T>[], latency = 0): DataSource<T> {
+    return ({offset, limit, sort, filter, quickFilter, signal}) => new Promise((resolve, reject) => {
+        const timeout = setTimeout(() => {
+            const matching = sortRows(filterRows(rows, filter, quickFilter, columns), sort, columns);
+            resolve({rows: matching.slice(offset, offset + limit), totalCount: matching.length});
+        }, latency);
+        signal.addEventListener('abort', () => {
+            clearTimeout(timeout);
+            reject(signal.reason);
+        });
+    });
+}
@@ -0,0 +1,79 @@
+import {html, TemplateResult} from "lit";
+import {Column, EditorContext, EditorOption, EditorType} from "../types.ts";
+import {getFilterOptions} from "./filter.ts";
+
+/**
+ * Guesses the editor to use from the value being edited
+ */
+export function inferEditorType(value: unknown): EditorType {
+    if(typeof value === 'number') return 'number';
+    if(typeof value === 'boolean') return 'checkbox';
+    if(value instanceof Date) return 'date';
+    return 'text';
+}
+
+function toDateInputValue(value: unknown): string {
+    if(value instanceof Date) return isNaN(value.getTime()) ? '' : value.toISOString().slice(0, 10);
+    return typeof value === 'string' ? value.slice(0, 10) : '';
+}
+
+function getEditorOptions<T extends object>(column: Column<T>, rows: T[]): EditorOption[] {
+    if(column.editorOptions) return column.editorOptions;
+    return getFilterOptions(column, rows).map(value => ({value, label: value === null ? '' : String(value)}));
+}
+
+/**
+ * Renders one of the built-in editors.
+ * Enter commits and Escape cancels, checkboxes commit as soon as they change.
+ * The text of inputs goes through the column's valueParser when it has one.
+ */
+export function renderEditor<T extends object>(type: EditorType, context: EditorContext<T>, rows: T[]): TemplateResult {
+    const {value, row, column, commit, cancel, error} = context;
+    const parse = (input: HTMLInputElement | HTMLSelectElement): unknown => {
+        if(input instanceof HTMLSelectElement) return getEditorOptions(column, rows)[input.selectedIndex]?.value;
+        if(column.valueParser && type !== 'checkbox') return column.valueParser(input.value, row);
+        switch(type) {
+            case 'number': return input.value === '' ? null : input.valueAsNumber;
+            case 'checkbox': return input.checked;
+            case 'date': return value instanceof Date ? (input.value ? new Date(`${input.value}T00:00`) : null) : input.value;
+            default: return input.value;
+        }
+    }
+    const onKeyDown = (e: KeyboardEvent) => {
+        e.stopPropagation();
+        if(e.key === 'Enter') {
+            e.preventDefault();
+            commit(parse(e.target as HTMLInputElement));
+        } else if(e.key === 'Escape') {
+            e.preventDefault();
+            cancel();
+        }
+    }
+    const onBlur = (e: FocusEvent) => commit(parse(e.target as HTMLInputElement));
+    const label = `Edit ${column.label}`;
+    let editor: TemplateResult;
+    switch(type) {
+        case 'select':
+            editor = html`
+                <select data-editor aria-label=${label} aria-invalid=${!!error} @keydown=${onKeyDown} @blur=${onBlur}>
+                    ${getEditorOptions(column, rows).map(option => html`
+                        <option ?selected=${option.value === value}>${option.label}</option>
+                    `)}
+                </select>`;
+            break;
+        case 'checkbox':
+            editor = html`
+                <input data-editor type="checkbox" aria-label=${label} aria-invalid=${!!error} .checked=${!!value}
+                       @keydown=${onKeyDown} @change=${(e: Event) => commit(parse(e.target as HTMLInputElement))}>`;
+            break;
+        default:
+            editor = html`
+                <input data-editor type=${type} aria-label=${label} aria-invalid=${!!error}
+                       .value=${type === 'date' ? toDateInputValue(value) : String(value ?? '')}
+                       @keydown=${onKeyDown} @blur=${onBlur}>`;
+    }
+    return html`
+        ${editor}
+        ${error ? html`<div class="cell-editor-error" role="alert">${error}</div>` : ''}
+    `;
+}
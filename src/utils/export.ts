@@ -0,0 +1,78 @@
+import {Column} from "../types.ts";
+import {formatCellValue, getCellValue} from "./value.ts";
+import {createZip} from "./zip.ts";
+
+export type ExportCell = string | number | boolean | null;
+
+/**
+ * Turns the rows into a table of plain values, one column per given column.
+ * Uses the column's exportValue, else the text of its valueFormatter, else the value itself.
+ */
+export function getExportTable<T extends object>(rows: T[], columns: Column<T>[]): ExportCell[][] {
+    return rows.map(row => columns.map(column => {
+        const cell = getCellValue(row, column);
+        const value = column.exportValue ? column.exportValue(cell, row)
+            : column.valueFormatter ? formatCellValue(row, column, cell) : cell;
+        if(value === undefined || value === null) return null;
+        if(value instanceof Date) return value.toISOString();
+        if(typeof value === 'object') return JSON.stringify(value);
+        return value;
+    }));
+}
+
+/**
+ * Joins a table into delimited text, quoting values that contain the delimiter, quotes or line breaks
+ */
+export function toDelimited(table: ExportCell[][], delimiter: string): string {
+    const quote = (value: ExportCell) => {
+        const text = value === null ? '' : String(value);
+        const needsQuotes = text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim();
+        return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return table.map(row => row.map(quote).join(delimiter)).join('\r\n');
+}
+
+function escapeXml(text: string) {
+    return text.replace(/[<>&"']/g, c => ({'<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;'})[c] as string)
+        // Characters XML 1.0 doesn't allow
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+function columnName(index: number) {
+    let name = '';
+    for(let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + (n - 1) % 26) + name;
+    return name;
+}
+
+/**
+ * Builds a single-sheet XLSX workbook, entirely in the browser
+ */
+export function toXlsx(table: ExportCell[][], sheetName = 'Sheet1'): Uint8Array {
+    const rows = table.map((row, r) => `<row r="${r + 1}">${row.map((value, c) => {
+        const ref = `${columnName(c)}${r + 1}`;
+        if(value === null) return '';
+        if(typeof value === 'number' && isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`;
+        if(typeof value === 'boolean') return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+        return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+    }).join('')}</row>`).join('');
+    const xml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+    return createZip({
+        '[Content_Types].xml': `${xml}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+            + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+            + '<Default Extension="xml" ContentType="application/xml"/>'
+            + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+            + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+            + '</Types>',
+        '_rels/.rels': `${xml}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+            + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+            + '</Relationships>',
+        'xl/workbook.xml': `${xml}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">`
+            + `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>`
+            + '</workbook>',
+        'xl/_rels/workbook.xml.rels': `${xml}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+            + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+            + '</Relationships>',
+        'xl/worksheets/sheet1.xml': `${xml}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">`
+            + `<sheetData>${rows}</sheetData></worksheet>`
+    });
+}
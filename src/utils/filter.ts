@@ -0,0 +1,88 @@
+import {Column, ColumnFilter, FilterModel, FilterType, FilterValue} from "../types.ts";
+import {formatCellValue, getCellValue} from "./value.ts";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function toTime(value: unknown): number {
+    if(value instanceof Date) return value.getTime();
+    if(typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) return new Date(`${value}T00:00`).getTime();
+    if(typeof value === 'string' || typeof value === 'number') return new Date(value).getTime();
+    return NaN;
+}
+
+/**
+ * Guesses the kind of filter to use from the first non-empty value of a column
+ */
+export function inferFilterType<T extends object>(column: Column<T>, rows: T[]): FilterType {
+    if(column.filterType) return column.filterType;
+    if(column.filterOptions) return 'set';
+    const sample = rows.map(row => getCellValue(row, column)).find(value => value !== null && value !== undefined);
+    if(typeof sample === 'number') return 'number';
+    if(sample instanceof Date) return 'date';
+    if(typeof sample === 'boolean') return 'set';
+    return 'text';
+}
+
+/**
+ * Returns the distinct values of a column, used as the options of a set filter
+ */
+export function getFilterOptions<T extends object>(column: Column<T>, rows: T[]): FilterValue[] {
+    if(column.filterOptions) return column.filterOptions;
+    const values = new Set<FilterValue>();
+    for(const row of rows) {
+        const value = getCellValue(row, column);
+        values.add(value === undefined ? null : value instanceof Date ? value.toISOString() : value);
+    }
+    return [...values];
+}
+
+/**
+ * Whether a single value passes a column filter
+ */
+export function matchesFilter(value: unknown, filter: ColumnFilter): boolean {
+    switch(filter.type) {
+        case 'text': {
+            if(!filter.value) return true;
+            const text = String(value ?? '').toLocaleLowerCase();
+            const search = filter.value.toLocaleLowerCase();
+            if(filter.operator === 'equals') return text === search;
+            if(filter.operator === 'startsWith') return text.startsWith(search);
+            return text.includes(search);
+        }
+        case 'number': {
+            if(value === null || value === undefined || value === '') return filter.min === undefined && filter.max === undefined;
+            const number = Number(value);
+            if(filter.min !== undefined && !(number >= filter.min)) return false;
+            return !(filter.max !== undefined && !(number <= filter.max));
+        }
+        case 'date': {
+            const time = toTime(value);
+            if(filter.from && !(time >= toTime(filter.from))) return false;
+            return !(filter.to && !(time < toTime(filter.to) + DAY));
+        }
+        case 'set': {
+            const normalized = value === undefined ? null : value instanceof Date ? value.toISOString() : value;
+            return filter.values.includes(normalized as FilterValue);
+        }
+    }
+}
+
+/**
+ * Returns the rows that pass every column filter and the quick filter, leaving the original array untouched.
+ * Text filters and the quick filter search the formatted text of the cells, other filters their values.
+ */
+export function filterRows<T extends object>(rows: T[], filter: FilterModel, quickFilter: string | undefined, columns: Column<T>[]): T[] {
+    const active = Object.entries(filter).flatMap(([field, f]) => {
+        const column = columns.find(c => c.field === field);
+        return column ? [{column, filter: f}] : [];
+    });
+    const search = quickFilter?.trim().toLocaleLowerCase();
+    if(!active.length && !search) return rows;
+    return rows.filter(row => {
+        if(!active.every(({column, filter}) => {
+            const value = getCellValue(row, column);
+            return matchesFilter(filter.type === 'text' ? formatCellValue(row, column, value) : value, filter);
+        })) return false;
+        return !search || columns.some(c => formatCellValue(row, c).toLocaleLowerCase().includes(search));
+    });
+}
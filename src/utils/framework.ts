@@ -0,0 +1,126 @@
+import {AsyncDirective, directive} from "lit/async-directive.js";
+import {DataGridEventMap, FrameworkRenderer} from "../types.ts";
+import type {DataGrid} from "../data-grid.ts";
+
+/**
+ * The properties of a grid the framework components pass through
+ */
+export const DATA_GRID_PROPERTIES = [
+    'columns', 'rows', 'dataSource', 'detailRenderer', 'sort', 'getRowId', 'getColumnMenuItems', 'rowClass', 'rowStyle',
+    'maxSortColumns', 'filter', 'quickFilter', 'persistKey', 'storage', 'editable', 'filterable', 'sortable', 'hideable',
+    'resizable', 'reorderable', 'pinnable', 'virtual', 'rowHeight', 'overscan', 'selectionMode', 'checkboxSelection',
+    'dataSourceMode', 'pagination', 'pageSize', 'pageSizeOptions', 'page', 'groupable', 'groupBy', 'grandTotal',
+    'cellSelection', 'singleExpand', 'historyDepth', 'controlled', 'theme', 'density'
+] as const satisfies readonly (keyof DataGrid)[];
+
+/**
+ * The properties of a grid that are flags, which frameworks can set with a bare attribute such as `<DataGrid sortable>`
+ */
+export const DATA_GRID_BOOLEAN_PROPERTIES = [
+    'editable', 'filterable', 'sortable', 'hideable', 'resizable', 'reorderable', 'pinnable', 'virtual',
+    'checkboxSelection', 'pagination', 'groupable', 'grandTotal', 'cellSelection', 'singleExpand', 'controlled'
+] as const satisfies readonly (typeof DATA_GRID_PROPERTIES[number])[];
+
+/**
+ * The events of a grid the framework components forward
+ */
+export const DATA_GRID_EVENTS = [
+    'sort-change', 'filter-change', 'data-error', 'column-visibility-change', 'column-pin-change', 'column-resize',
+    'columns-reorder', 'rows-reorder', 'group-by-change', 'group-toggle', 'row-expand', 'row-collapse',
+    'selection-change', 'cell-edit-start', 'cell-edit-commit', 'cell-edit-cancel', 'cells-change', 'row-change',
+    'history-change', 'page-change', 'columns-change', 'rows-load'
+] as const satisfies readonly (keyof DataGridEventMap)[];
+
+export type DataGridProperties<T extends object = any> = Partial<Pick<DataGrid<T>, typeof DATA_GRID_PROPERTIES[number]>>;
+
+let defaults: DataGridProperties | undefined;
+
+/**
+ * Writes a property to the grid, or the grid's own default when it is undefined
+ */
+function setGridProperty<K extends keyof DataGridProperties>(grid: DataGridProperties, name: K, value: DataGridProperties[K]) {
+    if(value === undefined) {
+        defaults ??= document.createElement('data-grid');
+        value = defaults[name];
+    }
+    if(grid[name] !== value) grid[name] = value;
+}
+
+/**
+ * Passes the props of a framework component to its grid. Props left undefined are left to the grid, unless they
+ * were set before, then the grid goes back to its default.
+ * @param assigned - The props set on the previous call, updated in place
+ */
+export function syncGridProperties(grid: DataGrid, props: DataGridProperties, assigned: Set<keyof DataGridProperties>) {
+    DATA_GRID_PROPERTIES.forEach(name => {
+        if(props[name] !== undefined) {
+            assigned.add(name);
+        } else if(assigned.has(name)) {
+            assigned.delete(name);
+        } else {
+            return;
+        }
+        setGridProperty(grid, name, props[name]);
+    });
+}
+
+type PascalCase<S extends string> = S extends `${infer Head}-${infer Tail}` ? `${Capitalize<Head>}${PascalCase<Tail>}` : Capitalize<S>;
+
+/**
+ * A callback prop for every event, `sort-change` becomes `onSortChange`
+ */
+export type DataGridEventProps<T extends object = any> = {
+    [K in keyof DataGridEventMap as `on${PascalCase<K>}`]?: (event: CustomEvent<DataGridEventMap<T>[K]>) => void;
+};
+
+export function getEventPropName(event: keyof DataGridEventMap) {
+    return `on${event.replace(/(^|-)(\w)/g, (_, __, c: string) => c.toUpperCase())}` as keyof DataGridEventProps;
+}
+
+/**
+ * Renders framework content into a container that is kept between renders, so the framework updates it in place,
+ * and unmounts it once the cell or panel holding it is removed, such as when virtual scrolling recycles a row
+ */
+class FrameworkContentDirective extends AsyncDirective {
+    private container?: HTMLElement;
+    private content?: unknown;
+    private renderer?: FrameworkRenderer;
+    private cleanup?: () => void;
+
+    render(content: unknown, renderer: FrameworkRenderer) {
+        if(!this.container) {
+            this.container = document.createElement('div');
+            this.container.style.display = 'contents';
+        }
+        // Another framework can't update what the previous one drew
+        if(this.renderer && this.renderer !== renderer) this.unmount();
+        this.content = content;
+        this.renderer = renderer;
+        if(this.isConnected) this.mount();
+        return this.container;
+    }
+
+    /**
+     * Draws the content, the renderer updates what it drew into the same container before
+     */
+    private mount() {
+        if(!this.renderer || !this.container) return;
+        const cleanup = this.renderer(this.content, this.container);
+        if(cleanup) this.cleanup = cleanup;
+    }
+
+    private unmount() {
+        this.cleanup?.();
+        this.cleanup = undefined;
+    }
+
+    protected override disconnected() {
+        this.unmount();
+    }
+
+    protected override reconnected() {
+        this.mount();
+    }
+}
+
+export const frameworkContent = directive(FrameworkContentDirective);
@@ -0,0 +1,74 @@
+import {AggregateFunction, AggregateName, Column, RowGroup, SortItem} from "../types.ts";
+import {defaultCompare} from "./sort.ts";
+import {getCellValue, getFieldValue} from "./value.ts";
+
+const aggregates: Record<AggregateName, AggregateFunction> = {
+    sum: values => values.reduce((sum, value) => sum + (Number(value) || 0), 0),
+    avg: values => values.length ? aggregates.sum(values, []) / values.length : undefined,
+    min: values => values.reduce((min, value) => min === undefined || defaultCompare(value, min) < 0 ? value : min, undefined),
+    max: values => values.reduce((max, value) => max === undefined || defaultCompare(value, max) > 0 ? value : max, undefined),
+    count: values => values.length
+};
+
+/**
+ * Identifies the value shared by a group, telling apart values that read the same such as `1` and `'1'`
+ */
+function getGroupId(value: unknown) {
+    if(value === null) return 'null';
+    if(value instanceof Date) return `date:${value.getTime()}`;
+    return `${typeof value}:${String(value)}`;
+}
+
+/**
+ * Nests rows into groups, one level per field.
+ * Groups are ordered by their value, following the sort of the field when it is sorted.
+ * A column's `groupValue` puts rows with different values in the same group, such as dates of the same month.
+ */
+export function groupRows<T extends object>(rows: T[], groupBy: string[], columns: Column<T>[], sort: SortItem[] = [], depth = 0,
+                                           parentKey = ''): RowGroup<T>[] {
+    const field = groupBy[depth];
+    if(!field) return [];
+    const column = columns.find(c => c.field === field);
+    const getValue = (row: T) => {
+        if(!column) return getFieldValue(row, field);
+        const value = getCellValue(row, column);
+        return column.groupValue ? column.groupValue(value, row) : value;
+    };
+    const groups = new Map<string, {value: unknown, members: T[]}>();
+    for(const row of rows) {
+        const value = getValue(row);
+        const id = getGroupId(value);
+        const group = groups.get(id);
+        if(group) {
+            group.members.push(row);
+        } else {
+            groups.set(id, {value, members: [row]});
+        }
+    }
+    const modifier = sort.find(s => s.field === field)?.direction === 'desc' ? -1 : 1;
+    return [...groups.entries()]
+        .sort(([, a], [, b]) => defaultCompare(a.value, b.value) * modifier)
+        .map(([id, {value, members}]) => {
+            const key = `${parentKey}/${field}:${id}`;
+            return {
+                key,
+                field,
+                value,
+                depth,
+                rows: members,
+                children: depth < groupBy.length - 1 ? groupRows(members, groupBy, columns, sort, depth + 1, key) : undefined
+            };
+        });
+}
+
+/**
+ * Summarizes the values of a column over a set of rows
+ */
+export function aggregate<T extends object>(column: Column<T>, rows: T[]) {
+    if(!column.aggregate) return undefined;
+    const fn: AggregateFunction<T> = typeof column.aggregate === 'function' ? column.aggregate : aggregates[column.aggregate];
+    const values = column.aggregate === 'count'
+        ? rows.map(row => getCellValue(row, column))
+        : rows.map(row => getCellValue(row, column)).filter(value => value !== null && value !== undefined && value !== '');
+    return fn(values, rows);
+}
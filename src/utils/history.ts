@@ -0,0 +1,118 @@
+/**
+ * A reversible change
+ */
+export interface Command {
+    undo(): void;
+    redo(): void;
+}
+
+/**
+ * An undo and redo stack of commands
+ */
+export class CommandHistory {
+    private done: Command[] = [];
+    private undone: Command[] = [];
+    private pending?: Command[];
+    /**
+     * Whether a command is being undone or redone, the changes it makes aren't recorded again
+     */
+    private applying = false;
+    /**
+     * The merge key and time of the last recorded step, see `record()`
+     */
+    private last?: {key: string, time: number};
+
+    /**
+     * @param depth - The number of steps kept, the oldest are dropped first
+     * @param mergeWindow - How long after a step, in milliseconds, a change with the same merge key still joins it
+     */
+    constructor(public depth = 100, public mergeWindow = 1000) {}
+
+    get canUndo() {
+        return this.done.length > 0;
+    }
+
+    get canRedo() {
+        return this.undone.length > 0;
+    }
+
+    /**
+     * Adds a change that has just been made, dropping whatever could be redone
+     * @param mergeKey - Merges the change into the previous step when that step had the same key and was recorded
+     * less than `mergeWindow` ago, so a run of edits such as typing in a filter is undone at once
+     */
+    record(command: Command, mergeKey?: string) {
+        if(this.applying || this.depth <= 0) return;
+        if(this.pending) {
+            this.pending.push(command);
+            return;
+        }
+        const now = Date.now();
+        const previous = this.done[this.done.length - 1];
+        if(mergeKey && previous && this.last?.key === mergeKey && now - this.last.time < this.mergeWindow) {
+            this.done[this.done.length - 1] = {undo: previous.undo, redo: command.redo};
+        } else {
+            this.done.push(command);
+        }
+        this.last = mergeKey ? {key: mergeKey, time: now} : undefined;
+        this.undone = [];
+        this.trim();
+    }
+
+    /**
+     * Records every change made by the callback as a single step
+     */
+    batch<T>(callback: () => T): T {
+        if(this.pending) return callback();
+        const pending: Command[] = this.pending = [];
+        try {
+            return callback();
+        } finally {
+            this.pending = undefined;
+            if(pending.length) this.record(pending.length === 1 ? pending[0] : {
+                undo: () => [...pending].reverse().forEach(c => c.undo()),
+                redo: () => pending.forEach(c => c.redo())
+            });
+        }
+    }
+
+    undo(): boolean {
+        this.last = undefined;
+        const command = this.done.pop();
+        if(!command) return false;
+        this.apply(() => command.undo());
+        this.undone.push(command);
+        return true;
+    }
+
+    redo(): boolean {
+        this.last = undefined;
+        const command = this.undone.pop();
+        if(!command) return false;
+        this.apply(() => command.redo());
+        this.done.push(command);
+        return true;
+    }
+
+    clear() {
+        this.last = undefined;
+        this.done = [];
+        this.undone = [];
+    }
+
+    /**
+     * Drops the oldest steps beyond the depth
+     */
+    trim() {
+        this.done.splice(0, Math.max(0, this.done.length - Math.max(0, this.depth)));
+    }
+
+    private apply(callback: () => void) {
+        this.applying = true;
+        try {
+            callback();
+        } finally {
+            this.applying = false;
+        }
+    }
+}
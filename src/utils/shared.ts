@@ -2,3 +2,16 @@ export function pixelsToPercentOfWidth(pixels: number, width: number): number {
     if(pixels === undefined || width === undefined) return 0;
     return (pixels / width) * 100
 }
+
+/**
+ * Dispatches a bubbling, composed custom event from the element
+ * @returns false if the event was cancelable and a listener called `preventDefault()`
+ */
+export function emit<T>(el: HTMLElement, name: string, detail: T, options?: Omit<CustomEventInit<T>, 'detail'>): boolean {
+    return el.dispatchEvent(new CustomEvent<T>(name, {
+        bubbles: true,
+        composed: true,
+        ...options,
+        detail
+    }));
+}
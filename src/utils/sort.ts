@@ -0,0 +1,62 @@
+import {Column, SortItem} from "../types.ts";
+import {getCellValue, getFieldValue} from "./value.ts";
+
+const collator = new Intl.Collator(undefined, {numeric: true, sensitivity: 'base'});
+
+function isEmpty(value: unknown) {
+    return value === null || value === undefined || value === '';
+}
+
+/**
+ * Orders empty values after the others, or returns undefined when neither value is empty
+ */
+function compareEmpty(a: unknown, b: unknown): number | undefined {
+    const aEmpty = isEmpty(a);
+    const bEmpty = isEmpty(b);
+    if(!aEmpty && !bEmpty) return undefined;
+    return aEmpty === bEmpty ? 0 : aEmpty ? 1 : -1;
+}
+
+/**
+ * Compares two cell values, picking a comparison based on their type.
+ * Numbers and dates compare numerically, everything else with a locale-aware collator.
+ * Empty values (null, undefined, '') always sort last.
+ */
+export function defaultCompare(a: unknown, b: unknown): number {
+    const empty = compareEmpty(a, b);
+    if(empty !== undefined) return empty;
+    if(typeof a === 'number' && typeof b === 'number') return a - b;
+    if(a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+    if(typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+    return collator.compare(String(a), String(b));
+}
+
+/**
+ * Returns a sorted copy of the rows, leaving the original array untouched
+ */
+export function sortRows<T extends object>(rows: T[], sort: SortItem[], columns: Column<T>[]): T[] {
+    const comparators = sort.map(item => {
+        const column = columns.find(c => c.field === item.field);
+        const compare = column?.compare ?? defaultCompare;
+        const modifier = item.direction === 'desc' ? -1 : 1;
+        const getValue = (row: T) => column ? getCellValue(row, column) : getFieldValue(row, item.field);
+        return (a: T, b: T) => {
+            const aValue = getValue(a);
+            const bValue = getValue(b);
+            // Empty values stay last whichever the direction
+            return compareEmpty(aValue, bValue) ?? compare(aValue, bValue, a, b) * modifier;
+        };
+    });
+    if(!comparators.length) return rows;
+    // Decorate with the original index so equal rows keep their order
+    return rows
+        .map((row, index) => ({row, index}))
+        .sort((a, b) => {
+            for(const compare of comparators) {
+                const result = compare(a.row, b.row);
+                if(result !== 0) return result;
+            }
+            return a.index - b.index;
+        })
+        .map(({row}) => row);
+}
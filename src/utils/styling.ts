@@ -0,0 +1,108 @@
+import {CellRule, Column, StyleDeclarations, ThresholdRule} from "../types.ts";
+import {defaultCompare} from "./sort.ts";
+import {getCellValue} from "./value.ts";
+
+/**
+ * The lowest and highest numbers of a column
+ */
+export interface ValueRange {
+    min: number;
+    max: number;
+}
+
+/**
+ * The classes and styles conditional formatting adds to a cell
+ */
+export interface CellStyling {
+    classes: string[];
+    style: StyleDeclarations;
+}
+
+/**
+ * Finds the lowest and highest numbers of a column, which scales and bars without bounds span
+ */
+export function getValueRange<T extends object>(column: Column<T>, rows: T[]): ValueRange | undefined {
+    let min = Infinity;
+    let max = -Infinity;
+    for(const row of rows) {
+        // Rows a data source hasn't loaded yet are holes
+        if(!row) continue;
+        const value = getCellValue(row, column);
+        if(typeof value !== 'number' || isNaN(value)) continue;
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+    }
+    return min <= max ? {min, max} : undefined;
+}
+
+function matchesThreshold(value: unknown, {operator, value: target}: ThresholdRule): boolean {
+    const empty = value === null || value === undefined || value === '';
+    if(empty || target === null) {
+        const equal = empty && target === null;
+        return operator === '==' ? equal : operator === '!=' && !equal;
+    }
+    const compared = value instanceof Date && typeof target === 'string'
+        ? new Date(/^\d{4}-\d{2}-\d{2}$/.test(target) ? `${target}T00:00` : target)
+        : target;
+    const result = defaultCompare(value, compared);
+    switch(operator) {
+        case '<': return result < 0;
+        case '<=': return result <= 0;
+        case '>': return result > 0;
+        case '>=': return result >= 0;
+        case '==': return result === 0;
+        case '!=': return result !== 0;
+    }
+}
+
+/**
+ * Mixes the colors of a scale at a position between 0 and 1
+ */
+function scaleColor(colors: string[], position: number) {
+    if(colors.length < 2) return colors[0];
+    const scaled = position * (colors.length - 1);
+    const index = Math.min(Math.floor(scaled), colors.length - 2);
+    const mix = Math.round((scaled - index) * 100);
+    return `color-mix(in srgb, ${colors[index + 1]} ${mix}%, ${colors[index]})`;
+}
+
+/**
+ * Applies conditional formatting rules to the value of a cell
+ * @param rules - The rules of the column, later rules override the styles of earlier ones
+ * @param value - The value of the cell
+ * @param range - The lowest and highest numbers of the column, for scales and bars without bounds
+ */
+export function applyCellRules(rules: CellRule[], value: unknown, range?: ValueRange): CellStyling {
+    const styling: CellStyling = {classes: [], style: {}};
+    for(const rule of rules) {
+        if(rule.type === 'threshold') {
+            if(!matchesThreshold(value, rule)) continue;
+            if(rule.className) styling.classes.push(...rule.className.split(/\s+/).filter(Boolean));
+            Object.assign(styling.style, rule.style);
+            continue;
+        }
+        if(typeof value !== 'number' || isNaN(value)) continue;
+        const min = rule.min ?? (rule.type === 'dataBar' ? Math.min(0, range?.min ?? 0) : range?.min) ?? value;
+        const max = rule.max ?? range?.max ?? value;
+        const position = max > min ? Math.min(1, Math.max(0, (value - min) / (max - min))) : 1;
+        if(rule.type === 'colorScale') {
+            const color = scaleColor(rule.colors, position);
+            if(color) styling.style[rule.property ?? 'background-color'] = color;
+        } else {
+            const percent = Math.round(position * 1000) / 10;
+            const color = rule.color ?? 'var(--grid-data-bar-color)';
+            styling.style['background-image'] = `linear-gradient(to right, ${color} ${percent}%, transparent ${percent}%)`;
+        }
+    }
+    return styling;
+}
+
+/**
+ * Writes declarations as the text of a style attribute, accepting camelCase names as well as CSS ones
+ */
+export function toStyleText(style: StyleDeclarations): string {
+    return Object.entries(style)
+        .filter(([, value]) => value !== undefined && value !== null && value !== '')
+        .map(([name, value]) => `${name.startsWith('--') ? name : name.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`)}: ${value}`)
+        .join('; ');
+}
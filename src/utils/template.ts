@@ -0,0 +1,56 @@
+import {CellRenderParams} from "../types.ts";
+import {getFieldValue} from "./value.ts";
+
+const urlAttributes = new Set(['href', 'src', 'action', 'formaction', 'xlink:href', 'poster', 'cite', 'data']);
+/**
+ * Attributes whose value is parsed as HTML or CSS
+ */
+const markupAttributes = new Set(['srcdoc', 'style']);
+const safeProtocols = new Set(['http:', 'https:', 'mailto:', 'tel:']);
+
+function isSafeUrl(url: string) {
+    try {
+        return safeProtocols.has(new URL(url, document.baseURI).protocol);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Renders a cell from a `<template>`, filling the placeholders of its text and attributes:
+ * `{{value}}` is the value of the cell, `{{rowIndex}}` the index of its row and `{{row.city}}` a field of its row.
+ * Values are inserted as text, they are never parsed as HTML. Event handler, `srcdoc` and `style` attributes are
+ * never filled, and URL attributes are dropped when their filled value isn't an http, https, mailto or tel URL.
+ */
+export function renderTemplate(template: HTMLTemplateElement, {value, row, rowIndex}: CellRenderParams): DocumentFragment {
+    const fill = (text: string) => text.replace(/\{\{\s*([\w.$-]+)\s*}}/g, (_, name: string) => {
+        const result = name === 'value' ? value
+            : name === 'rowIndex' ? rowIndex
+            : getFieldValue(row, name.startsWith('row.') ? name.slice(4) : name);
+        return result === null || result === undefined ? '' : String(result);
+    });
+    const fragment = template.content.cloneNode(true) as DocumentFragment;
+    const walker = document.createTreeWalker(fragment, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT);
+    for(let node = walker.nextNode(); node; node = walker.nextNode()) {
+        if(node instanceof Text) {
+            if(node.data.includes('{{')) node.data = fill(node.data);
+        } else if(node instanceof Element) {
+            for(const attribute of [...node.attributes]) {
+                if(!attribute.value.includes('{{')) continue;
+                const name = attribute.name.toLowerCase();
+                // Row data would run as script in a handler or as markup, such attributes are removed rather than filled
+                if(name.startsWith('on') || markupAttributes.has(name)) {
+                    node.removeAttributeNode(attribute);
+                    continue;
+                }
+                const filled = fill(attribute.value);
+                if(urlAttributes.has(name) && !isSafeUrl(filled)) {
+                    node.removeAttributeNode(attribute);
+                } else {
+                    attribute.value = filled;
+                }
+            }
+        }
+    }
+    return fragment;
+}
@@ -0,0 +1,52 @@
+import {Column, Row} from "../types.ts";
+
+/**
+ * Reads a field of a row, following dotted paths such as `'address.city'` into nested objects.
+ * A key that contains dots itself is read as is.
+ */
+export function getFieldValue(row: object, field: string): any {
+    const record = row as Row;
+    if(field in record || !field.includes('.')) return record[field];
+    return field.split('.').reduce<any>((value, key) => value === null || value === undefined ? undefined : value[key], record);
+}
+
+/**
+ * Writes a field of a row in place, creating the nested objects of a dotted path that are missing
+ */
+export function setFieldValue(row: object, field: string, value: unknown) {
+    const record = row as Row;
+    if(field in record || !field.includes('.')) {
+        record[field] = value;
+        return;
+    }
+    const keys = field.split('.');
+    const last = keys.pop() as string;
+    const parent = keys.reduce((object, key) => object[key] ??= {}, record);
+    parent[last] = value;
+}
+
+/**
+ * Returns a copy of a row with a field changed, copying the nested objects along a dotted path rather than mutating them
+ */
+export function withFieldValue<T extends object>(row: T, field: string, value: unknown): T {
+    const record = row as Row;
+    if(field in record || !field.includes('.')) return {...row, [field]: value};
+    const [key, ...rest] = field.split('.');
+    const child = record[key];
+    return {...row, [key]: withFieldValue(child !== null && typeof child === 'object' ? child : {}, rest.join('.'), value)};
+}
+
+/**
+ * The value of a cell, computed by the column's valueGetter or read from its field
+ */
+export function getCellValue<T extends object>(row: T, column: Column<T>): any {
+    return column.valueGetter ? column.valueGetter(row) : getFieldValue(row, column.field);
+}
+
+/**
+ * The text of a cell as it is displayed, searched and exported, using the column's valueFormatter when it has one
+ */
+export function formatCellValue<T extends object>(row: T, column: Column<T>, value = getCellValue(row, column)): string {
+    if(column.valueFormatter) return column.valueFormatter(value, row);
+    return value === null || value === undefined ? '' : String(value);
+}
@@ -0,0 +1,68 @@
+const crcTable = new Uint32Array(256).map((_, n) => {
+    let c = n;
+    for(let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+    let crc = 0xFFFFFFFF;
+    for(let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * Packs files into an uncompressed (stored) zip archive
+ * @param files - The content of each file, keyed by its path in the archive
+ */
+export function createZip(files: Record<string, string | Uint8Array>): Uint8Array {
+    const encoder = new TextEncoder();
+    const local: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+    for(const [path, content] of Object.entries(files)) {
+        const name = encoder.encode(path);
+        const data = typeof content === 'string' ? encoder.encode(content) : content;
+        const crc = crc32(data);
+        const header = new Uint8Array(30 + name.length);
+        const view = new DataView(header.buffer);
+        view.setUint32(0, 0x04034B50, true); // Local file header signature
+        view.setUint16(4, 20, true); // Version needed to extract
+        view.setUint16(6, 0x0800, true); // UTF-8 file names
+        view.setUint32(14, crc, true);
+        view.setUint32(18, data.length, true); // Compressed size
+        view.setUint32(22, data.length, true); // Uncompressed size
+        view.setUint16(26, name.length, true);
+        header.set(name, 30);
+        const entry = new Uint8Array(46 + name.length);
+        const entryView = new DataView(entry.buffer);
+        entryView.setUint32(0, 0x02014B50, true); // Central directory signature
+        entryView.setUint16(4, 20, true); // Version made by
+        entryView.setUint16(6, 20, true); // Version needed to extract
+        entryView.setUint16(8, 0x0800, true);
+        entryView.setUint32(16, crc, true);
+        entryView.setUint32(20, data.length, true);
+        entryView.setUint32(24, data.length, true);
+        entryView.setUint16(28, name.length, true);
+        entryView.setUint32(42, offset, true); // Offset of the local header
+        entry.set(name, 46);
+        local.push(header, data);
+        central.push(entry);
+        offset += header.length + data.length;
+    }
+    const centralSize = central.reduce((size, entry) => size + entry.length, 0);
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054B50, true); // End of central directory signature
+    endView.setUint16(8, central.length, true);
+    endView.setUint16(10, central.length, true);
+    endView.setUint32(12, centralSize, true);
+    endView.setUint32(16, offset, true);
+    const parts = [...local, ...central, end];
+    const zip = new Uint8Array(offset + centralSize + end.length);
+    let position = 0;
+    for(const part of parts) {
+        zip.set(part, position);
+        position += part.length;
+    }
+    return zip;
+}
@@ -0,0 +1,74 @@
+import {defineComponent, getCurrentInstance, h, isVNode, onBeforeUnmount, onMounted, PropType, ref, render, watchEffect} from "vue";
+import "../data-grid.ts";
+import {DataGrid as DataGridElement} from "../data-grid.ts";
+import {DataGridEventMap, FrameworkRenderer} from "../types.ts";
+import {
+    DATA_GRID_BOOLEAN_PROPERTIES,
+    DATA_GRID_EVENTS,
+    DATA_GRID_PROPERTIES,
+    DataGridProperties,
+    syncGridProperties
+} from "../utils/framework.ts";
+
+export type * from "../types.ts";
+export type {DataGridElement};
+
+type DataGridPropOptions = {
+    [K in keyof DataGridProperties]-?: {type: PropType<DataGridProperties[K]>, default: undefined};
+};
+type DataGridEmits = {
+    [K in keyof DataGridEventMap]: (event: CustomEvent<DataGridEventMap[K]>) => true;
+};
+
+const booleanProperties: readonly string[] = DATA_GRID_BOOLEAN_PROPERTIES;
+// Flags are cast so a bare attribute turns them on, the undefined default leaves an absent one to the element
+const props = Object.fromEntries(DATA_GRID_PROPERTIES.map(name => [name, {
+    type: booleanProperties.includes(name) ? Boolean : null,
+    default: undefined
+}])) as unknown as DataGridPropOptions;
+const emits = Object.fromEntries(DATA_GRID_EVENTS.map(name => [name, () => true])) as unknown as DataGridEmits;
+
+/**
+ * Data Grid for Vue
+ *
+ * Passes every prop to the `<data-grid>` element and re-emits its custom events under the same names,
+ * `expose`s the element as `grid` for calling methods such as `undo()` or `exportData()`.
+ */
+export const DataGrid = defineComponent({
+    name: 'DataGrid',
+    props,
+    emits,
+    setup(props, {emit, expose, slots}) {
+        const grid = ref<DataGridElement>();
+        const assigned = new Set<keyof DataGridProperties>();
+        // VNodes returned by columns are rendered with the app's components and plugins
+        const appContext = getCurrentInstance()?.appContext;
+        const vueRenderer: FrameworkRenderer = (content, container) => {
+            if(isVNode(content) && appContext) content.appContext = appContext;
+            render(content, container);
+            return () => render(null, container);
+        };
+        const listeners = DATA_GRID_EVENTS.map(name => [name, (event: Event) => {
+            // Events of grids nested in detail panels bubble up too
+            if(event.target === grid.value) (emit as (name: string, event: Event) => void)(name, event);
+        }] as const);
+
+        onMounted(() => {
+            const element = grid.value;
+            if(!element) return;
+            element.renderer = vueRenderer;
+            listeners.forEach(([name, listener]) => element.addEventListener(name, listener));
+        });
+        onBeforeUnmount(() => {
+            listeners.forEach(([name, listener]) => grid.value?.removeEventListener(name, listener));
+        });
+        watchEffect(() => {
+            const element = grid.value;
+            if(!element) return;
+            syncGridProperties(element, props, assigned);
+        }, {flush: 'post'});
+
+        expose({grid});
+        return () => h('data-grid', {ref: grid}, slots.default?.());
+    }
+});